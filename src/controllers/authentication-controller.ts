@@ -1,7 +1,8 @@
-import axios from 'axios';
 import { Request, Response } from 'express';
+import { SessionDocument } from '../models/session-model';
+import { UserDocument } from '../models/user-model';
+import { GoogleIdTokenData } from '../services/google-service';
 import ServiceContainer from '../services/service-container';
-import { AccessTokenData } from '../services/token-service';
 import Controller from './controller';
 
 /**
@@ -19,10 +20,15 @@ export default class AuthenticationController extends Controller {
   public constructor(container: ServiceContainer) {
     super(container, '/auth');
     this.registerEndpoint({ method: 'POST', uri: '/accessToken', handlers: this.accessToken });
+    this.registerEndpoint({ method: 'POST', uri: '/logout', handlers: [container.auth.isSessionAuthenticatedHandler, this.logoutHandler], permissions: [] });
   }
 
   /**
-   * Gets a new access token with a refresh token.
+   * Gets new access and refresh tokens.
+   * 
+   * The grant type is given in the `grant_type` body field :
+   * - `id_token` (default) : the Google ID token must be provided in the `id_token` body field. If no user is linked to the Google account, a new user is created
+   * - `refresh_token` : the refresh token must be provided in the `refresh_token` body field. The refresh token is rotated and can't be used anymore
    * 
    * Path: `POST /accessToken`
    * 
@@ -30,10 +36,116 @@ export default class AuthenticationController extends Controller {
    * @param res Express response
    */
   public async accessToken(req: Request, res: Response): Promise<Response> {
+    const { grant_type = 'id_token' } = req.body;
+    switch (grant_type) {
+      case 'id_token': return await this.idTokenGrant(req, res);
+      case 'refresh_token': return await this.refreshTokenGrant(req, res);
+      default:
+        return res.status(400).json(this.container.errors.formatErrors({
+          error: 'unsupported_grant_type',
+          error_description: `Unsupported grant type "${grant_type}"`
+        }));
+    }
+  }
+
+  /**
+   * Logs out the authenticated user.
+   * 
+   * The current session is revoked. If the `all` body field is `true`, all sessions of the user are revoked (logout everywhere).
+   * 
+   * Path: `POST /logout`
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  public async logoutHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const authSession: SessionDocument = res.locals.authSession;
+      await this.container.auth.revokeSessions(req.body.all === true ? { owner: authUser.id } : { _id: authSession.id });
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).json(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets new tokens with a Google ID token.
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  private async idTokenGrant(req: Request, res: Response): Promise<Response> {
+    const { id_token } = req.body;
+    if (id_token == null) {
+      return res.status(400).json(this.container.errors.formatErrors({
+        error: 'invalid_request',
+        error_description: 'Missing ID token'
+      }));
+    }
+    try {
+      let idTokenData: GoogleIdTokenData;
+      try {
+        idTokenData = await this.container.google.verifyIdToken(id_token);
+      } catch (err) {
+        this.logger.error('Could not verify ID token :', (err as Error).message);
+        return res.status(400).json(this.container.errors.formatErrors({
+          error: 'invalid_grant',
+          error_description: 'Invalid ID token'
+        }));
+      }
+      if (!this.container.google.isClientAllowed(idTokenData.aud)) {
+        return res.status(401).json(this.container.errors.formatErrors({
+          error: 'invalid_client',
+          error_description: 'ID token was not issued for this client'
+        }));
+      }
+      let user = await this.db.users.findOne({ googleId: idTokenData.sub }).select('+deleted');
+      if (user == null) {
+        user = await this.db.users.create({ googleId: idTokenData.sub });
+        try {
+          await this.container.palettes.applyDefaultPalette(user.id);
+        } catch (err) {
+          this.logger.error('Could not apply default palette :', err);
+        }
+      } else if (user.deleted) {
+        return res.status(400).json(this.container.errors.formatErrors({
+          error: 'invalid_grant',
+          error_description: 'User is deleted'
+        }));
+      }
+      const session = await this.container.auth.createSession(user, req);
+      return res.status(200).json(await this.container.auth.generateTokens(session));
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).json(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets new tokens with a refresh token.
+   * 
+   * @param req Express request
+   * @param res Express response
+   */
+  private async refreshTokenGrant(req: Request, res: Response): Promise<Response> {
+    const { refresh_token } = req.body;
+    if (refresh_token == null) {
+      return res.status(400).json(this.container.errors.formatErrors({
+        error: 'invalid_request',
+        error_description: 'Missing refresh token'
+      }));
+    }
     try {
-      // const response = await axios.get('https://www.googleapis.com/oauth2/v1/userinfo?alt=json', { headers: { Authorization: res.getHeader('Authorization') as string } });
-      const accessToken = await this.container.tokens.encode<AccessTokenData>({ userId: '61812492271832f17a07170d' }, process.env.ACCESS_TOKEN_KEY, { expiresIn: '100d' });
-      return res.status(200).json({ access_token: accessToken }); // TODO Check if the user is correct with Google API
+      const tokens = await this.container.auth.refreshTokens(refresh_token, req);
+      if (tokens == null) {
+        return res.status(400).json(this.container.errors.formatErrors({
+          error: 'invalid_grant',
+          error_description: 'Invalid refresh token'
+        }));
+      }
+      return res.status(200).json(tokens);
     } catch (err) {
       this.logger.error(err);
       return res.status(500).json(this.container.errors.formatServerError());
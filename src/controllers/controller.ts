@@ -1,6 +1,7 @@
 import _ from 'lodash';
 import { RequestHandler, Router } from 'express';
 import Component from '../component';
+import { Permission } from '../services/permission-service';
 import ServiceContainer from '../services/service-container';
 
 /**
@@ -32,9 +33,19 @@ export default abstract class Controller extends Component {
   /**
    * Registers an endpoint.
    * 
+   * If the endpoint declares permissions, authentication and authorization handlers are added before the endpoint handlers.
+   * 
    * @param endpoint Endpoint to register
    */
   protected registerEndpoint(endpoint: Endpoint): void {
+    if (endpoint.permissions != null) {
+      endpoint.handlers = [
+        this.container.auth.authenticateHandler,
+        this.container.auth.isAuthenticatedHandler,
+        this.container.auth.hasPermissionsHandler(...endpoint.permissions),
+        ..._.castArray(endpoint.handlers)
+      ];
+    }
     const endpointExtended: EndpointExtended = { ...endpoint, calledCount: 0 };
     const updateStatMiddleware: RequestHandler = (req, res, next) => {
       this.updateStat(endpointExtended);
@@ -98,6 +109,13 @@ export interface Endpoint {
   uri: string;
   handlers: RequestHandler | RequestHandler[];
   description?: string;
+
+  /**
+   * Required permissions.
+   * 
+   * When defined, the endpoint requires an authenticated user with all these permissions. Use an empty array to only require authentication.
+   */
+  permissions?: Permission[];
 }
 
 /**
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import ServiceContainer from '../services/service-container';
+import Controller from './controller';
+
+/**
+ * Palettes controller class.
+ * 
+ * Root path : `/palettes`
+ */
+export default class PaletteController extends Controller {
+
+  /**
+   * Creates a new palettes controller.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container, '/palettes');
+    this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler, permissions: ['own.emotion.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:paletteId', handlers: this.getHandler, permissions: ['own.emotion.read'] });
+  }
+
+  /**
+   * Lists all palettes.
+   * 
+   * Preset palettes and palettes published by users are returned separately. The author of a published palette is only returned if the owner
+   * has a public profile.
+   * 
+   * Path : `GET /palettes`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      return res.status(200).send({ presets: this.container.palettes.getPresets(), palettes: await this.container.palettes.getPublishedPalettes() });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets a palette.
+   * 
+   * Path : `GET /palettes/:paletteId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const palette = await this.container.palettes.findPalette(req.params.paletteId);
+      if (palette == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Palette not found'
+        }));
+      }
+      return res.status(200).send({ palette });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { Error as MongooseError } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Controller from './controller';
+
+/**
+ * Roles controller class.
+ * 
+ * Root path : `/roles`
+ */
+export default class RoleController extends Controller {
+
+  /**
+   * Creates a new roles controller.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container, '/roles');
+    this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler, permissions: ['role.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/', handlers: this.createHandler, permissions: ['role.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/:name', handlers: this.updateHandler, permissions: ['role.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/:name', handlers: this.deleteHandler, permissions: ['role.write'] });
+  }
+
+  /**
+   * Lists all roles.
+   * 
+   * Configured roles and custom roles are merged.
+   * 
+   * Path : `GET /roles`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const roles = await this.container.permissions.getRoles();
+      return res.status(200).send({ roles: Object.keys(roles).map(name => ({ name, ...roles[name], custom: roles[name].custom || false })) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates a new custom role.
+   * 
+   * If a configured role has the same name, the custom role is merged with it.
+   * 
+   * Path : `POST /roles`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async createHandler(req: Request, res: Response): Promise<Response> {
+    const { name, permissions } = req.body;
+    try {
+      const role = await this.db.roles.create({ name, extends: req.body.extends, permissions });
+      return res.status(201).send({ id: role.name });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Updates a custom role.
+   * 
+   * Path : `PATCH /roles/:name`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateHandler(req: Request, res: Response): Promise<Response> {
+    const { permissions } = req.body;
+    try {
+      const role = await this.db.roles.findOne({ name: req.params.name });
+      if (role == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Role not found'
+        }));
+      }
+      if (req.body.extends != null) {
+        role.extends = req.body.extends;
+      }
+      if (permissions != null) {
+        role.permissions = permissions;
+      }
+      await role.save();
+      return res.status(200).send({ id: role.name });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes a custom role.
+   * 
+   * A custom role which is not also a configured role can't be deleted while it is given to users or extended by other roles.
+   * 
+   * Path : `DELETE /roles/:name`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deleteHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const role = await this.db.roles.findOne({ name: req.params.name });
+      if (role == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Role not found'
+        }));
+      }
+      if (this.container.config.services.permissions.roles[role.name] == null) {
+        const roles = await this.container.permissions.getRoles();
+        if (await this.db.users.exists({ role: role.name }) || Object.keys(roles).some(name => roles[name].extends.includes(role.name))) {
+          return res.status(400).send(this.container.errors.formatErrors({
+            error: 'invalid_request',
+            error_description: 'Role is in use'
+          }));
+        }
+      }
+      await role.deleteOne();
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+}
@@ -1,7 +1,14 @@
 import { Request, Response } from 'express';
 import _ from 'lodash';
-import { Error as MongooseError } from 'mongoose';
-import { Day, UserDocument } from '../models/user-model';
+import { Error as MongooseError, isValidObjectId } from 'mongoose';
+import { SessionDocument } from '../models/session-model';
+import { UserDocument } from '../models/user-model';
+import EmotionService, { EmotionRollup } from '../services/emotion-service';
+import ExportService, { ExportFormat } from '../services/export-service';
+import ImageService, { YearImageFormat } from '../services/image-service';
+import ImportService from '../services/import-service';
+import PaletteService from '../services/palette-service';
+import { Permission } from '../services/permission-service';
 import ServiceContainer from '../services/service-container';
 import Controller from './controller';
 
@@ -14,15 +21,40 @@ export default class SelfController extends Controller {
 
   public constructor(container: ServiceContainer) {
     super(container, '/me');
-    this.registerEndpoint({ method: 'GET', uri: '/', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.infoHandler] });
-    this.registerEndpoint({ method: 'GET', uri: '/emotions', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.listEmotionsHandler] });
-    this.registerEndpoint({ method: 'POST', uri: '/emotions', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.createEmotionHandler] });
-    this.registerEndpoint({ method: 'PATCH', uri: '/emotions/:emotionId', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.updateEmotionHandler] });
-    this.registerEndpoint({ method: 'DELETE', uri: '/emotions/:emotionId', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.deleteEmotionHandler] });
-    this.registerEndpoint({ method: 'GET', uri: '/days', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.listDaysHandler] });
-    this.registerEndpoint({ method: 'POST', uri: '/days', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.createDayHandler] });
-    this.registerEndpoint({ method: 'PATCH', uri: '/days/:date', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.updateDayhandler] });
-    this.registerEndpoint({ method: 'DELETE', uri: '/days/:date', handlers: [container.auth.authenticateHandler, container.auth.isAuthenticatedHandler, this.deleteDayHandler] });
+    this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.infoHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/', handlers: this.updateHandler, permissions: ['own.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/emotions', handlers: this.listEmotionsHandler, permissions: ['own.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/emotions', handlers: this.createEmotionHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/emotions/:emotionId', handlers: this.updateEmotionHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/emotions/:emotionId', handlers: this.deleteEmotionHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'PUT', uri: '/emotions/order', handlers: this.reorderEmotionsHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'POST', uri: '/emotions/:emotionId/merge', handlers: this.mergeEmotionHandler, permissions: ['own.write', 'own.emotion.write'] });
+    this.registerEndpoint({ method: 'POST', uri: '/emotions/apply-palette', handlers: this.applyPaletteHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/emotion-categories', handlers: this.listEmotionCategoriesHandler, permissions: ['own.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/emotion-categories', handlers: this.createEmotionCategoryHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/emotion-categories/:categoryId', handlers: this.updateEmotionCategoryHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/emotion-categories/:categoryId', handlers: this.deleteEmotionCategoryHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/palettes', handlers: this.listPalettesHandler, permissions: ['own.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/palettes', handlers: this.publishPaletteHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/palettes/:paletteId', handlers: this.deletePaletteHandler, permissions: ['own.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/days', handlers: this.listDaysHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/days', handlers: this.createDayHandler, permissions: ['own.write'] });
+    this.registerEndpoint({ method: 'PUT', uri: '/days', handlers: this.upsertDaysHandler, permissions: ['own.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/days/:date', handlers: this.updateDayhandler, permissions: ['own.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/days/:date', handlers: this.deleteDayHandler, permissions: ['own.write'] });
+    this.registerEndpoint({ method: 'POST', uri: '/import', handlers: this.importHandler, permissions: ['own.write', 'own.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/export', handlers: this.exportHandler, permissions: ['own.read', 'own.emotion.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/stats', handlers: this.getStatsHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/stats/correlations', handlers: this.getCorrelationsHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/stats/mood', handlers: this.getMoodHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/years/:year/image', handlers: this.getYearImageHandler, permissions: ['own.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/sync', handlers: this.getSyncHandler, permissions: ['own.read', 'own.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/sync', handlers: this.postSyncHandler, permissions: ['own.write', 'own.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/sessions', handlers: [container.auth.isSessionAuthenticatedHandler, this.listSessionsHandler], permissions: [] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/sessions/:sessionId', handlers: [container.auth.isSessionAuthenticatedHandler, this.deleteSessionHandler], permissions: [] });
+    this.registerEndpoint({ method: 'GET', uri: '/tokens', handlers: [container.auth.isSessionAuthenticatedHandler, this.listTokensHandler], permissions: [] });
+    this.registerEndpoint({ method: 'POST', uri: '/tokens', handlers: [container.auth.isSessionAuthenticatedHandler, this.createTokenHandler], permissions: [] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/tokens/:tokenId', handlers: [container.auth.isSessionAuthenticatedHandler, this.deleteTokenHandler], permissions: [] });
   }
 
   /**
@@ -39,7 +71,6 @@ export default class SelfController extends Controller {
       const authUser: UserDocument = res.locals.authUser;
       authUser.deleted = undefined;
       authUser.depopulate('emotions');
-      authUser.days = undefined;
       return res.status(200).json({ user: authUser });
     } catch (err) {
       this.logger.error(err);
@@ -48,7 +79,39 @@ export default class SelfController extends Controller {
   }
 
   /**
-   * Lists emotions.
+   * Updates the authenticated user.
+   * 
+   * Only the `profile` and `settings` body fields can be updated, partially (missing attributes are not changed, `null` clears them) :
+   * - `profile` : `displayName`, `avatarUrl` (HTTP(S) URL), `locale` (example : `fr-FR`), `timezone` (IANA timezone, example :
+   *   `Pacific/Auckland`) and `weekStart` (ISO day of the week, 1 is monday)
+   * - `settings` : `defaultLayout` (year image layout) and `privacy.publicProfile`
+   * 
+   * Path : `PATCH /me`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateHandler(req: Request, res: Response): Promise<Response> {
+    const { profile, settings } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      authUser.updateProfile({ profile, settings });
+      await authUser.save();
+      return res.status(200).send({ id: authUser.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists emotions, sorted by position.
+   * 
+   * Archived emotions are excluded, unless the `archived` query parameter is `true`.
    * 
    * Path : `GET /me/emotions`
    * 
@@ -58,7 +121,8 @@ export default class SelfController extends Controller {
    */
   public async listEmotionsHandler(req: Request, res: Response): Promise<Response> {
     try {
-      const emotions = (res.locals.authUser as UserDocument).emotions.filter(emotion => !emotion.deleted);
+      const includeArchived = req.query.archived === 'true';
+      const emotions = _.sortBy((res.locals.authUser as UserDocument).emotions.filter(emotion => !emotion.deleted && (includeArchived || !emotion.archived)), 'position');
       emotions.forEach(emotion => emotion.deleted = undefined);
       return res.status(200).send({ emotions });
     } catch (err) {
@@ -80,6 +144,7 @@ export default class SelfController extends Controller {
     try {
       const authUser: UserDocument = res.locals.authUser;
       const emotion = await this.db.emotions.create({ owner: authUser, ...req.body });
+      this.container.websocket.emitSync(authUser.id, 'emotion:created', emotion);
       return res.status(201).send({ id: emotion.id });
     } catch (err) {
       this.logger.error(err);
@@ -100,7 +165,7 @@ export default class SelfController extends Controller {
    * @async
    */
   public async updateEmotionHandler(req: Request, res: Response): Promise<Response> {
-    const { name, color } = req.body;
+    const { name, color, valence, energy, category, position, icon, archived } = req.body;
     try {
       const authUser: UserDocument = res.locals.authUser;
       const emotion = authUser.emotions.find(emotion => !emotion.deleted && emotion.id === req.params.emotionId);
@@ -116,7 +181,26 @@ export default class SelfController extends Controller {
       if (color != null) {
         emotion.color = color;
       }
+      if (valence !== undefined) {
+        emotion.valence = valence;
+      }
+      if (energy !== undefined) {
+        emotion.energy = energy;
+      }
+      if (category !== undefined) {
+        emotion.category = category;
+      }
+      if (position != null) {
+        emotion.position = position;
+      }
+      if (icon !== undefined) {
+        emotion.icon = icon;
+      }
+      if (archived != null) {
+        emotion.archived = archived;
+      }
       await emotion.save();
+      this.container.websocket.emitSync(authUser.id, 'emotion:updated', emotion);
       return res.status(200).send({ id: emotion.id });
     } catch (err) {
       this.logger.error(err);
@@ -148,6 +232,7 @@ export default class SelfController extends Controller {
       }
       emotion.deleted = true;
       await emotion.save();
+      this.container.websocket.emitSync(authUser.id, 'emotion:deleted', emotion);
       return res.status(204).send();
     } catch (err) {
       this.logger.error(err);
@@ -156,22 +241,29 @@ export default class SelfController extends Controller {
   }
 
   /**
-   * Lists days.
+   * Reorders emotions.
    * 
-   * Path : `GET /me/days`
+   * Emotion IDs are given in the new order in the `emotions` body field. Missing emotions are moved after the given ones, keeping their order.
+   * 
+   * Path : `PUT /me/emotions/order`
    * 
    * @param req Express request
    * @param res Express response
    * @async
    */
-  public async listDaysHandler(req: Request, res: Response): Promise<Response> {
+  public async reorderEmotionsHandler(req: Request, res: Response): Promise<Response> {
+    const { emotions: emotionIds } = req.body;
     try {
       const authUser: UserDocument = res.locals.authUser;
-      authUser.days.forEach(day => day.emotions.forEach(emotion => {
-        emotion.owner = undefined;
-        emotion.deleted = undefined;
-      }));
-      return res.status(200).send({ days: authUser.days });
+      const emotions = Array.isArray(emotionIds) ? await this.container.emotions.reorderEmotions(authUser.id, emotionIds.map(String)) : null;
+      if (emotions == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions order'
+        }));
+      }
+      emotions.forEach(emotion => this.container.websocket.emitSync(authUser.id, 'emotion:updated', emotion));
+      return res.status(204).send();
     } catch (err) {
       this.logger.error(err);
       return res.status(500).send(this.container.errors.formatServerError());
@@ -179,21 +271,45 @@ export default class SelfController extends Controller {
   }
 
   /**
-   * Creates a new day.
+   * Merges an emotion into another one.
    * 
-   * Path : `POST /me/days`
+   * The target emotion ID is given in the `target` body field. Days of the source emotion are remapped to the target emotion, then
+   * the source emotion is deleted. The number of changed days is returned.
+   * 
+   * Path : `POST /me/emotions/:emotionId/merge`
    * 
    * @param req Express request
    * @param res Express response
    * @async
    */
-  public async createDayHandler(req: Request, res: Response): Promise<Response> {
+  public async mergeEmotionHandler(req: Request, res: Response): Promise<Response> {
+    const { target: targetId } = req.body;
     try {
       const authUser: UserDocument = res.locals.authUser;
-      const day: Day = req.body;
-      authUser.days.push(day);
-      await authUser.save();
-      return res.status(201).send({ id: day.date });
+      const source = authUser.emotions.find(emotion => !emotion.deleted && emotion.id === req.params.emotionId);
+      if (source == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Emotion not found'
+        }));
+      }
+      const target = authUser.emotions.find(emotion => !emotion.deleted && emotion.id === targetId);
+      if (target == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Target emotion not found'
+        }));
+      }
+      if (source.id === target.id) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Emotion can\'t be merged into itself'
+        }));
+      }
+      const days = await this.container.emotions.mergeEmotions(source, target);
+      days.forEach(day => this.container.websocket.emitSync(authUser.id, 'day:updated', day));
+      this.container.websocket.emitSync(authUser.id, 'emotion:deleted', source);
+      return res.status(200).send({ days: days.length });
     } catch (err) {
       this.logger.error(err);
       if (err instanceof MongooseError.ValidationError) {
@@ -204,33 +320,124 @@ export default class SelfController extends Controller {
   }
 
   /**
-   * Updates a day.
+   * Applies a palette, by creating its emotions.
    * 
-   * Path : `PATCH /me/days/:date`
+   * The palette (preset key or published palette ID) is given in the `palette` body field. Name clashes with existing emotions are resolved
+   * with the `conflict` body field : `skip` (default) keeps the existing emotion, `rename` adds a numeric suffix to the new emotion.
+   * 
+   * Path : `POST /me/emotions/apply-palette`
    * 
    * @param req Express request
    * @param res Express response
    * @async
    */
-  public async updateDayhandler(req: Request, res: Response): Promise<Response> {
-    const { description, emotions } = req.body;
+  public async applyPaletteHandler(req: Request, res: Response): Promise<Response> {
+    const { palette: paletteId, conflict = 'skip' } = req.body;
     try {
+      if (!PaletteService.CONFLICTS.includes(conflict)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid palette conflict strategy'
+        }));
+      }
+      const palette = await this.container.palettes.findPalette(paletteId);
+      if (palette == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Palette not found'
+        }));
+      }
       const authUser: UserDocument = res.locals.authUser;
-      const day = authUser.days.find(day => day.date === req.params.date);
-      if (day == null) {
+      const emotions = await this.container.palettes.applyPalette(authUser.id, palette.emotions, conflict);
+      emotions.forEach(emotion => this.container.websocket.emitSync(authUser.id, 'emotion:created', emotion));
+      return res.status(201).send({ ids: emotions.map(emotion => emotion.id) });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists emotion categories.
+   * 
+   * Non-deleted emotions of each category are populated.
+   * 
+   * Path : `GET /me/emotion-categories`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listEmotionCategoriesHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const categories = await this.db.emotionCategories.find().where('owner').equals(authUser.id).where('deleted').equals(false)
+        .select('-owner').populate({ path: 'emotions', select: '-owner', match: { deleted: false } });
+      return res.status(200).send({ categories });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates a new emotion category.
+   * 
+   * Path : `POST /me/emotion-categories`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async createEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
+    const { name, color, parent } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const category = await this.db.emotionCategories.create({ owner: authUser.id, name, color, parent });
+      return res.status(201).send({ id: category.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Updates an emotion category.
+   * 
+   * Path : `PATCH /me/emotion-categories/:categoryId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
+    const { name, color, parent } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const category = await this.db.emotionCategories.findById(req.params.categoryId).where('owner').equals(authUser.id).where('deleted').equals(false);
+      if (category == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
-          error_description: 'Day not found'
+          error_description: 'Emotion category not found'
         }));
       }
-      if (description != null) {
-        day.description = description;
+      if (name != null) {
+        category.name = name;
       }
-      if (emotions != null) {
-        day.emotions = emotions;
+      if (color !== undefined) {
+        category.color = color;
       }
-      await authUser.save();
-      return res.status(200).send({ id: day.date });
+      if (parent !== undefined) {
+        category.parent = parent;
+      }
+      await category.save();
+      return res.status(200).send({ id: category.id });
     } catch (err) {
       this.logger.error(err);
       if (err instanceof MongooseError.ValidationError) {
@@ -241,27 +448,698 @@ export default class SelfController extends Controller {
   }
 
   /**
-   * Deletes a day.
+   * Deletes an emotion category.
    * 
-   * Path : `DELETE /me/days/:date`
+   * Emotions and sub-categories of the category are moved to its parent category, or become uncategorized if the category has no parent.
+   * 
+   * Path : `DELETE /me/emotion-categories/:categoryId`
    * 
    * @param req Express request
    * @param res Express response
    * @async
    */
-  public async deleteDayHandler(req: Request, res: Response): Promise<Response> {
+  public async deleteEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
     try {
       const authUser: UserDocument = res.locals.authUser;
-      const day = authUser.days.find(day => day.date === req.params.date);
-      if (day == null) {
+      const category = await this.db.emotionCategories.findById(req.params.categoryId).where('owner').equals(authUser.id).where('deleted').equals(false);
+      if (category == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
-          error_description: 'Day not found'
+          error_description: 'Emotion category not found'
+        }));
+      }
+      await this.container.emotions.deleteCategory(category);
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists palettes published by the authenticated user.
+   * 
+   * Path : `GET /me/palettes`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listPalettesHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const palettes = await this.db.palettes.find().where('owner').equals(authUser.id).where('deleted').equals(false).select('-owner');
+      return res.status(200).send({ palettes });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Publishes a palette from emotions of the authenticated user, so other users can apply it.
+   * 
+   * Emotions to publish can be selected with the `emotions` body field (IDs of non-deleted emotions), all emotions are published otherwise.
+   * 
+   * Path : `POST /me/palettes`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async publishPaletteHandler(req: Request, res: Response): Promise<Response> {
+    const { name, description, emotions } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const palette = await this.container.palettes.publishPalette(authUser.id, { name, description }, emotions);
+      if (palette == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid palette emotions'
+        }));
+      }
+      return res.status(201).send({ id: palette.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes a palette published by the authenticated user.
+   * 
+   * Emotions already created from the palette are kept.
+   * 
+   * Path : `DELETE /me/palettes/:paletteId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deletePaletteHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      if (!isValidObjectId(req.params.paletteId) || (await this.db.palettes.updateOne({ _id: req.params.paletteId, owner: authUser.id, deleted: false }, { deleted: true })).modifiedCount === 0) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Palette not found'
+        }));
+      }
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists days.
+   * 
+   * Days can be filtered with the `from`, `to`, `year` and `month` query parameters, sorted by date with the `order` query parameter
+   * (`asc` or `desc`) and paginated with the `limit` and `cursor` query parameters. The cursor of the next page is returned in `paging.next`.
+   * 
+   * Path : `GET /me/days`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listDaysHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const options = this.container.days.parseListOptions(req.query);
+      if (options == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid days filters or pagination'
+        }));
+      }
+      return res.status(200).send(await this.container.days.listDays(authUser.id, options));
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates a new day.
+   * 
+   * Emotions are given in the `emotions` body field, as emotion IDs or as day emotions (`{ emotion, intensity, order }`).
+   * 
+   * Path : `POST /me/days`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async createDayHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const day = await this.container.days.createDay(authUser.id, req.body);
+      this.container.websocket.emitSync(authUser.id, 'day:created', day);
+      return res.status(201).send({ id: day.date });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates or replaces days.
+   * 
+   * Days are given in the `days` body field (`{ date, description, emotions }`), and are created or replaced by date. By default, nothing is
+   * saved if a day is invalid (the status code is 400). When the `partial` body field is `true`, valid days are saved anyway.
+   * The result of each day is returned.
+   * 
+   * Path : `PUT /me/days`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async upsertDaysHandler(req: Request, res: Response): Promise<Response> {
+    const { days, partial } = req.body;
+    try {
+      if (!Array.isArray(days) || days.length === 0 || days.length > this.container.config.services.days.maxBatchSize || !days.every(day => _.isPlainObject(day))) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: `Days must be an array of 1 to ${this.container.config.services.days.maxBatchSize} days`
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      const results = await this.container.days.upsertDays(authUser.id, days, partial === true);
+      results.forEach(({ status, day }) => {
+        if (status === 'created' || status === 'updated') {
+          this.container.websocket.emitSync(authUser.id, `day:${status}`, day);
+        }
+      });
+      const formattedResults = results.map(({ date, status, errors }) => ({ date, status, errors }));
+      if (partial !== true && results.some(result => result.status === 'invalid')) {
+        return res.status(400).send({
+          ...this.container.errors.formatErrors({ error: 'validation_failed', error_description: 'Invalid day(s), no day was saved' }),
+          days: formattedResults
+        });
+      }
+      return res.status(200).send({ days: formattedResults });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Updates a day.
+   * 
+   * When the `emotions` body field is given, it replaces all emotions of the day. Emotions can be given as emotion IDs (with the default
+   * intensity) or as day emotions (`{ emotion, intensity, order }`). When the order is missing, the position in the array is used.
+   * 
+   * Path : `PATCH /me/days/:date`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateDayhandler(req: Request, res: Response): Promise<Response> {
+    const { description, emotions } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const day = await this.container.days.findDay(authUser.id, req.params.date);
+      if (day == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Day not found'
+        }));
+      }
+      if (description != null) {
+        day.description = description;
+      }
+      if (emotions != null) {
+        day.emotions = emotions;
+      }
+      await day.save();
+      this.container.websocket.emitSync(authUser.id, 'day:updated', day);
+      return res.status(200).send({ id: day.date });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes a day.
+   * 
+   * Path : `DELETE /me/days/:date`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deleteDayHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const day = await this.container.days.findDay(authUser.id, req.params.date);
+      if (day == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Day not found'
+        }));
+      }
+      day.deleted = true;
+      await day.save();
+      this.container.websocket.emitSync(authUser.id, 'day:deleted', day);
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Imports days from a file, exported from this API or from another mood tracker.
+   * 
+   * Body fields :
+   * - `content` : file content (CSV or JSON as a string)
+   * - `format` : `csv`, `json`, `daylio` or `pixels`, detected from the content if not specified
+   * - `dryRun` : if `true`, nothing is saved and the report tells what would be imported
+   * - `emotions` : mapping of source moods to emotion IDs, unmapped moods are matched by name or become new emotions
+   * 
+   * A report is returned, with the status and errors of every row.
+   * 
+   * Path : `POST /me/import`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async importHandler(req: Request, res: Response): Promise<Response> {
+    const { content, emotions: mapping } = req.body;
+    const dryRun = req.body.dryRun === true || req.body.dryRun === 'true';
+    try {
+      if (typeof content !== 'string' || content.trim() === '') {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Missing import content'
+        }));
+      }
+      if (req.body.format != null && !ImportService.FORMATS.includes(req.body.format)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid import format'
+        }));
+      }
+      const format = req.body.format ?? this.container.imports.detectFormat(content);
+      const source = format != null ? this.container.imports.parse(format, content) : null;
+      if (source == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: format != null ? 'Invalid import content' : 'Unknown import format'
+        }));
+      }
+      if (source.rows.length > this.container.config.services.import.maxRows) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Too many rows to import'
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      const report = await this.container.imports.importDays(authUser.id, source, { dryRun, mapping: _.isPlainObject(mapping) ? mapping : {} });
+      return res.status(200).send({ format, report });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Exports emotions and days of the authenticated user.
+   * 
+   * The format is given with the `format` query parameter : `json` (default), `csv` or `ics`. JSON and CSV exports can be imported back.
+   * The export is streamed as an attachment.
+   * 
+   * Path : `GET /me/export`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async exportHandler(req: Request, res: Response): Promise<Response> {
+    const format = (req.query.format ?? 'json') as ExportFormat;
+    try {
+      if (!ExportService.FORMATS.includes(format)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid export format'
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      res.status(200).type(ExportService.CONTENT_TYPES[format]).attachment(`export.${format}`);
+      await this.container.exports.exportData(authUser.id, format, res);
+      res.end();
+      return res;
+    } catch (err) {
+      this.logger.error(err);
+      if (res.headersSent) {
+        res.destroy(err as Error);
+        return res;
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets statistics of the authenticated user.
+   * 
+   * Statistics can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters. Emotions can be
+   * rolled up to their category (`rollup=category`) or to their top-level category (`rollup=root`).
+   * 
+   * Path : `GET /me/stats`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getStatsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const rollup = req.query.rollup as EmotionRollup;
+      if (rollup != null && !EmotionService.ROLLUPS.includes(rollup)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions roll-up'
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      return res.status(200).send({ stats: await this.container.stats.getStats(authUser.id, range, rollup) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets correlations between emotions of the authenticated user (co-occurrences, lift and next-day transitions).
+   * 
+   * Correlations can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters. Emotions can be
+   * rolled up to their category (`rollup=category`) or to their top-level category (`rollup=root`).
+   * 
+   * Path : `GET /me/stats/correlations`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getCorrelationsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const rollup = req.query.rollup as EmotionRollup;
+      if (rollup != null && !EmotionService.ROLLUPS.includes(rollup)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions roll-up'
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      return res.status(200).send({ correlations: await this.container.stats.getCorrelations(authUser.id, range, rollup) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets the mood series of the authenticated user, with 7 and 30 days moving averages.
+   * 
+   * The series can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters.
+   * 
+   * Path : `GET /me/stats/mood`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getMoodHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const authUser: UserDocument = res.locals.authUser;
+      return res.status(200).send({ mood: await this.container.stats.getMood(authUser.id, range) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Draws the year of the authenticated user ("year in pixels").
+   * 
+   * Query parameters :
+   * - `format` : `svg` (default) or `png`
+   * - `layout` : `grid` (one column per month), `calendar` (one column per week) or `circle` (one ring per emotion of the day), defaults to
+   *   the user's default layout or `grid`
+   * - `cellSize` : size of day cells in pixels (with a lower maximum for the circle layout)
+   * - `weekStart` : first day of the week for the calendar layout (ISO day of the week, 1 is monday), defaults to the user's week start
+   * 
+   * Path : `GET /me/years/:year/image`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getYearImageHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const format = (req.query.format ?? 'svg') as YearImageFormat;
+      const authUser: UserDocument = res.locals.authUser;
+      const options = this.container.image.parseOptions(req.query, { layout: authUser.settings?.defaultLayout, weekStart: authUser.profile?.weekStart });
+      if (!/^\d{4}$/.test(req.params.year) || !ImageService.FORMATS.includes(format) || options == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid year or image options'
+        }));
+      }
+      const { days } = await this.container.days.listDays(authUser.id, this.container.days.getYearListOptions(Number(req.params.year)));
+      const image = this.container.image.drawYear(Number(req.params.year), days, options);
+      return format === 'png'
+        ? res.status(200).type('image/png').send(this.container.image.toPng(image))
+        : res.status(200).type('image/svg+xml').send(this.container.image.toSvg(image));
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets days and emotions changes since a cursor.
+   * 
+   * If no cursor is given in the `since` query parameter, all days and emotions are returned. The returned cursor must be used for the next sync.
+   * 
+   * Path : `GET /me/sync`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getSyncHandler(req: Request, res: Response): Promise<Response> {
+    const { since } = req.query;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const sinceDate = since != null ? this.container.sync.decodeCursor(since as string) : null;
+      if (since != null && sinceDate == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid cursor'
+        }));
+      }
+      const cursor = this.container.sync.createCursor();
+      return res.status(200).send({ ...await this.container.sync.getChanges(authUser.id, sinceDate), cursor });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Applies a batch of client changes.
+   * 
+   * The `cursor` body field is the cursor of the last client sync, used to detect conflicts. Results are returned for each change.
+   * 
+   * Path : `POST /me/sync`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async postSyncHandler(req: Request, res: Response): Promise<Response> {
+    const { cursor, emotions, days } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const sinceDate = cursor != null ? this.container.sync.decodeCursor(cursor) : null;
+      if (sinceDate == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid cursor'
+        }));
+      }
+      if ((emotions != null && !_.isArray(emotions)) || (days != null && !_.isArray(days))) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Changes must be arrays'
+        }));
+      }
+      if ((emotions?.length || 0) + (days?.length || 0) > this.container.config.services.sync.maxChanges) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Too many changes'
+        }));
+      }
+      return res.status(200).send({ results: await this.container.sync.applyChanges(authUser.id, sinceDate, { emotions, days }) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists active sessions.
+   * 
+   * Path : `GET /me/sessions`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listSessionsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const authSession: SessionDocument = res.locals.authSession;
+      const sessions = await this.db.sessions.find({ owner: authUser.id, revoked: false, expiresAt: { $gt: new Date() } }).select('-owner').sort({ lastUsedAt: -1 });
+      return res.status(200).send({ sessions: sessions.map(session => ({ ...session.toJSON(), current: session.id === authSession.id })) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes (revokes) a session.
+   * 
+   * Path : `DELETE /me/sessions/:sessionId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deleteSessionHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      if (!isValidObjectId(req.params.sessionId) || await this.container.auth.revokeSessions({ _id: req.params.sessionId, owner: authUser.id }) === 0) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Session not found'
+        }));
+      }
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists personal access tokens.
+   * 
+   * Path : `GET /me/tokens`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listTokensHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      return res.status(200).send({ tokens: await this.db.personalAccessTokens.find({ owner: authUser.id, deleted: false }).select('-owner') });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates a new personal access token.
+   * 
+   * The token is only returned in this response.
+   * 
+   * Path : `POST /me/tokens`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async createTokenHandler(req: Request, res: Response): Promise<Response> {
+    const { name, scopes, expiresAt } = req.body;
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      const userPerms = await this.container.permissions.getPermissions(authUser.role);
+      if (_.isArray(scopes) && !scopes.every((scope: Permission) => userPerms.includes(scope))) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_scope',
+          error_description: 'Personal access token scopes exceed user permissions'
+        }));
+      }
+      const { personalAccessToken, token } = await this.container.auth.createPersonalAccessToken(authUser, name, scopes, expiresAt != null ? new Date(expiresAt) : undefined);
+      return res.status(201).send({ id: personalAccessToken.id, token });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes (revokes) a personal access token.
+   * 
+   * Path : `DELETE /me/tokens/:tokenId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deleteTokenHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      if (!isValidObjectId(req.params.tokenId) || (await this.db.personalAccessTokens.updateOne({ _id: req.params.tokenId, owner: authUser.id, deleted: false }, { deleted: true })).modifiedCount === 0) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Personal access token not found'
         }));
       }
-      _.remove(authUser.days, day);
-      authUser.markModified('days');
-      await authUser.save();
       return res.status(204).send();
     } catch (err) {
       this.logger.error(err);
@@ -1,6 +1,10 @@
 import { Request, Response } from 'express';
 import _ from 'lodash';
-import { Error as MongooseError } from 'mongoose';
+import { Error as MongooseError, isValidObjectId } from 'mongoose';
+import { UserDocument } from '../models/user-model';
+import EmotionService, { EmotionRollup } from '../services/emotion-service';
+import ExportService, { ExportFormat } from '../services/export-service';
+import ImageService, { YearImageFormat } from '../services/image-service';
 import ServiceContainer from '../services/service-container';
 import Controller from './controller';
 
@@ -18,17 +22,31 @@ export default class UserController extends Controller {
    */
   public constructor(container: ServiceContainer) {
     super(container, '/users');
-    this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler });
-    this.registerEndpoint({ method: 'GET', uri: '/:id', handlers: this.getHandler });
-    this.registerEndpoint({ method: 'DELETE', uri: '/:id', handlers: this.deleteHandler });
-    this.registerEndpoint({ method: 'GET', uri: '/:id/emotions', handlers: this.listEmotionsHandler });
-    this.registerEndpoint({ method: 'POST', uri: '/:id/emotions', handlers: this.createEmotionHandler });
-    this.registerEndpoint({ method: 'PATCH', uri: '/:id/emotions/:emotionId', handlers: this.updateEmotionHandler });
-    this.registerEndpoint({ method: 'DELETE', uri: '/:id/emotions/:emotionId', handlers: this.deleteEmotionHandler });
-    this.registerEndpoint({ method: 'GET', uri: '/:id/days', handlers: this.listDaysHandler });
-    this.registerEndpoint({ method: 'POST', uri: '/:id/days', handlers: this.createDayHandler });
-    this.registerEndpoint({ method: 'PATCH', uri: '/:id/days/:date', handlers: this.updateDayhandler });
-    this.registerEndpoint({ method: 'DELETE', uri: '/:id/days/:date', handlers: this.deleteDayHandler });
+    this.registerEndpoint({ method: 'GET', uri: '/', handlers: this.listHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id', handlers: this.getHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/:id', handlers: this.updateHandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/:id', handlers: this.deleteHandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'PUT', uri: '/:id/role', handlers: this.updateRoleHandler, permissions: ['user.role.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/emotions', handlers: this.listEmotionsHandler, permissions: ['user.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/:id/emotions', handlers: this.createEmotionHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/:id/emotions/:emotionId', handlers: this.updateEmotionHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/:id/emotions/:emotionId', handlers: this.deleteEmotionHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'PUT', uri: '/:id/emotions/order', handlers: this.reorderEmotionsHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'POST', uri: '/:id/emotions/:emotionId/merge', handlers: this.mergeEmotionHandler, permissions: ['user.write', 'user.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/emotion-categories', handlers: this.listEmotionCategoriesHandler, permissions: ['user.emotion.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/:id/emotion-categories', handlers: this.createEmotionCategoryHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/:id/emotion-categories/:categoryId', handlers: this.updateEmotionCategoryHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/:id/emotion-categories/:categoryId', handlers: this.deleteEmotionCategoryHandler, permissions: ['user.emotion.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/days', handlers: this.listDaysHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'POST', uri: '/:id/days', handlers: this.createDayHandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'PUT', uri: '/:id/days', handlers: this.upsertDaysHandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'PATCH', uri: '/:id/days/:date', handlers: this.updateDayhandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'DELETE', uri: '/:id/days/:date', handlers: this.deleteDayHandler, permissions: ['user.write'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/export', handlers: this.exportHandler, permissions: ['user.read', 'user.emotion.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/stats', handlers: this.getStatsHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/stats/correlations', handlers: this.getCorrelationsHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/stats/mood', handlers: this.getMoodHandler, permissions: ['user.read'] });
+    this.registerEndpoint({ method: 'GET', uri: '/:id/years/:year/image', handlers: this.getYearImageHandler, permissions: ['user.read'] });
   }
 
   /**
@@ -74,6 +92,39 @@ export default class UserController extends Controller {
     }
   }
 
+  /**
+   * Updates the profile and settings of an user.
+   * 
+   * The body is the same as `PATCH /me` : only the `profile` and `settings` fields can be updated, partially.
+   * 
+   * Path : `PATCH /users/:id`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateHandler(req: Request, res: Response): Promise<Response> {
+    const { profile, settings } = req.body;
+    try {
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      user.updateProfile({ profile, settings });
+      await user.save();
+      return res.status(200).send({ id: user.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
   /**
    * Deletes an user.
    * 
@@ -102,7 +153,48 @@ export default class UserController extends Controller {
   }
 
   /**
-   * Lists emotions.
+   * Updates the role of an user (promote or demote).
+   * 
+   * The authenticated user can't change its own role.
+   * 
+   * Path : `PUT /users/:id/role`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateRoleHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const authUser: UserDocument = res.locals.authUser;
+      if (authUser.id === req.params.id) {
+        return res.status(403).send(this.container.errors.formatErrors({
+          error: 'forbidden',
+          error_description: 'Can not change own role'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      user.role = req.body.role;
+      await user.save();
+      return res.status(200).send({ id: user.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists emotions, sorted by position.
+   * 
+   * Archived emotions are excluded, unless the `archived` query parameter is `true`.
    * 
    * Path : `GET /users/:id/emotions`
    * 
@@ -112,7 +204,9 @@ export default class UserController extends Controller {
    */
   public async listEmotionsHandler(req: Request, res: Response): Promise<Response> {
     try {
-      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('emotions').populate({ path: 'emotions', match: { deleted: false } });
+      const match = req.query.archived === 'true' ? { deleted: false } : { deleted: false, archived: false };
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('emotions')
+        .populate({ path: 'emotions', match, options: { sort: { position: 1, createdAt: 1 } } });
       if (user == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
@@ -144,6 +238,7 @@ export default class UserController extends Controller {
         }));
       }
       const emotion = await this.db.emotions.create({ owner: req.params.id, ...req.body });
+      this.container.websocket.emitSync(req.params.id, 'emotion:created', emotion);
       return res.status(201).send({ id: emotion.id });
     } catch (err) {
       this.logger.error(err);
@@ -164,7 +259,7 @@ export default class UserController extends Controller {
    * @async
    */
    public async updateEmotionHandler(req: Request, res: Response): Promise<Response> {
-    const { name, color } = req.body;
+    const { name, color, valence, energy, category, position, icon, archived } = req.body;
     try {
       if (!await this.db.users.exists({ _id: req.params.id })) {
         return res.status(404).send(this.container.errors.formatErrors({
@@ -172,7 +267,7 @@ export default class UserController extends Controller {
           error_description: 'User not found'
         }));
       }
-      const emotion = await this.db.emotions.findById(req.params.emotionId).where('deleted').equals(false);
+      const emotion = await this.db.emotions.findById(req.params.emotionId).where('owner').equals(req.params.id).where('deleted').equals(false);
       if (emotion == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
@@ -185,7 +280,26 @@ export default class UserController extends Controller {
       if (color != null) {
         emotion.color = color;
       }
+      if (valence !== undefined) {
+        emotion.valence = valence;
+      }
+      if (energy !== undefined) {
+        emotion.energy = energy;
+      }
+      if (category !== undefined) {
+        emotion.category = category;
+      }
+      if (position != null) {
+        emotion.position = position;
+      }
+      if (icon !== undefined) {
+        emotion.icon = icon;
+      }
+      if (archived != null) {
+        emotion.archived = archived;
+      }
       await emotion.save();
+      this.container.websocket.emitSync(req.params.id, 'emotion:updated', emotion);
       return res.status(200).send({ id: emotion.id });
     } catch (err) {
       this.logger.error(err);
@@ -213,7 +327,7 @@ export default class UserController extends Controller {
           error_description: 'User not found'
         }));
       }
-      const emotion = await this.db.emotions.findById(req.params.emotionId).where('deleted').equals(false);
+      const emotion = await this.db.emotions.findById(req.params.emotionId).where('owner').equals(req.params.id).where('deleted').equals(false);
       if (emotion == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
@@ -222,6 +336,232 @@ export default class UserController extends Controller {
       }
       emotion.deleted = true;
       await emotion.save();
+      this.container.websocket.emitSync(req.params.id, 'emotion:deleted', emotion);
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Reorders emotions.
+   * 
+   * Emotion IDs are given in the new order in the `emotions` body field. Missing emotions are moved after the given ones, keeping their order.
+   * 
+   * Path : `PUT /users/:id/emotions/order`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async reorderEmotionsHandler(req: Request, res: Response): Promise<Response> {
+    const { emotions: emotionIds } = req.body;
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const emotions = Array.isArray(emotionIds) ? await this.container.emotions.reorderEmotions(req.params.id, emotionIds.map(String)) : null;
+      if (emotions == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions order'
+        }));
+      }
+      emotions.forEach(emotion => this.container.websocket.emitSync(req.params.id, 'emotion:updated', emotion));
+      return res.status(204).send();
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Merges an emotion into another one.
+   * 
+   * The target emotion ID is given in the `target` body field. Days of the source emotion are remapped to the target emotion, then
+   * the source emotion is deleted. The number of changed days is returned.
+   * 
+   * Path : `POST /users/:id/emotions/:emotionId/merge`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async mergeEmotionHandler(req: Request, res: Response): Promise<Response> {
+    const { target: targetId } = req.body;
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const source = await this.db.emotions.findById(req.params.emotionId).where('owner').equals(req.params.id).where('deleted').equals(false);
+      if (source == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Emotion not found'
+        }));
+      }
+      const target = isValidObjectId(targetId) ? await this.db.emotions.findById(targetId).where('owner').equals(req.params.id).where('deleted').equals(false) : null;
+      if (target == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Target emotion not found'
+        }));
+      }
+      if (source.id === target.id) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Emotion can\'t be merged into itself'
+        }));
+      }
+      const days = await this.container.emotions.mergeEmotions(source, target);
+      days.forEach(day => this.container.websocket.emitSync(req.params.id, 'day:updated', day));
+      this.container.websocket.emitSync(req.params.id, 'emotion:deleted', source);
+      return res.status(200).send({ days: days.length });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Lists emotion categories.
+   * 
+   * Non-deleted emotions of each category are populated.
+   * 
+   * Path : `GET /users/:id/emotion-categories`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async listEmotionCategoriesHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const categories = await this.db.emotionCategories.find().where('owner').equals(req.params.id).where('deleted').equals(false)
+        .select('-owner').populate({ path: 'emotions', select: '-owner', match: { deleted: false } });
+      return res.status(200).send({ categories });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Creates a new emotion category.
+   * 
+   * Path : `POST /users/:id/emotion-categories`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async createEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
+    const { name, color, parent } = req.body;
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const category = await this.db.emotionCategories.create({ owner: req.params.id, name, color, parent });
+      return res.status(201).send({ id: category.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Updates an emotion category.
+   * 
+   * Path : `PATCH /users/:id/emotion-categories/:categoryId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async updateEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
+    const { name, color, parent } = req.body;
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const category = await this.db.emotionCategories.findById(req.params.categoryId).where('owner').equals(req.params.id).where('deleted').equals(false);
+      if (category == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Emotion category not found'
+        }));
+      }
+      if (name != null) {
+        category.name = name;
+      }
+      if (color !== undefined) {
+        category.color = color;
+      }
+      if (parent !== undefined) {
+        category.parent = parent;
+      }
+      await category.save();
+      return res.status(200).send({ id: category.id });
+    } catch (err) {
+      this.logger.error(err);
+      if (err instanceof MongooseError.ValidationError) {
+        return res.status(400).send(this.container.errors.formatErrors(...this.container.errors.translateMongooseValidationError(err)));
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Deletes an emotion category.
+   * 
+   * Emotions and sub-categories of the category are moved to its parent category, or become uncategorized if the category has no parent.
+   * 
+   * Path : `DELETE /users/:id/emotion-categories/:categoryId`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async deleteEmotionCategoryHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!await this.db.users.exists({ _id: req.params.id })) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const category = await this.db.emotionCategories.findById(req.params.categoryId).where('owner').equals(req.params.id).where('deleted').equals(false);
+      if (category == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'Emotion category not found'
+        }));
+      }
+      await this.container.emotions.deleteCategory(category);
       return res.status(204).send();
     } catch (err) {
       this.logger.error(err);
@@ -232,6 +572,9 @@ export default class UserController extends Controller {
   /**
    * Lists days.
    * 
+   * Days can be filtered with the `from`, `to`, `year` and `month` query parameters, sorted by date with the `order` query parameter
+   * (`asc` or `desc`) and paginated with the `limit` and `cursor` query parameters. The cursor of the next page is returned in `paging.next`.
+   * 
    * Path : `GET /users/:id/days`
    * 
    * @param req Express request
@@ -240,14 +583,21 @@ export default class UserController extends Controller {
    */
   public async listDaysHandler(req: Request, res: Response): Promise<Response> {
     try {
-      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('days').populate('days.emotions', '-owner -deleted');
+      const options = this.container.days.parseListOptions(req.query);
+      if (options == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid days filters or pagination'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
       if (user == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
           error_description: 'User not found'
         }));
       }
-      return res.status(200).send({ days: user.days });
+      return res.status(200).send(await this.container.days.listDays(user.id, options));
     } catch (err) {
       this.logger.error(err);
       return res.status(500).send(this.container.errors.formatServerError());
@@ -257,6 +607,8 @@ export default class UserController extends Controller {
   /**
    * Creates a new day.
    * 
+   * Emotions are given in the `emotions` body field, as emotion IDs or as day emotions (`{ emotion, intensity, order }`).
+   * 
    * Path : `POST /users/:id/days`
    * 
    * @param req Express request
@@ -265,16 +617,16 @@ export default class UserController extends Controller {
    */
   public async createDayHandler(req: Request, res: Response): Promise<Response> {
     try {
-      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('days');
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
       if (user == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
           error_description: 'User not found'
         }));
       }
-      user.days.push(req.body);
-      await user.save();
-      return res.status(201).send({ id: _.last(user.days).date });
+      const day = await this.container.days.createDay(user.id, req.body);
+      this.container.websocket.emitSync(user.id, 'day:created', day);
+      return res.status(201).send({ id: day.date });
     } catch (err) {
       this.logger.error(err);
       if (err instanceof MongooseError.ValidationError) {
@@ -284,9 +636,61 @@ export default class UserController extends Controller {
     }
   }
 
+  /**
+   * Creates or replaces days.
+   * 
+   * Days are given in the `days` body field (`{ date, description, emotions }`), and are created or replaced by date. By default, nothing is
+   * saved if a day is invalid (the status code is 400). When the `partial` body field is `true`, valid days are saved anyway.
+   * The result of each day is returned.
+   * 
+   * Path : `PUT /users/:id/days`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async upsertDaysHandler(req: Request, res: Response): Promise<Response> {
+    const { days, partial } = req.body;
+    try {
+      if (!Array.isArray(days) || days.length === 0 || days.length > this.container.config.services.days.maxBatchSize || !days.every(day => _.isPlainObject(day))) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: `Days must be an array of 1 to ${this.container.config.services.days.maxBatchSize} days`
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const results = await this.container.days.upsertDays(user.id, days, partial === true);
+      results.forEach(({ status, day }) => {
+        if (status === 'created' || status === 'updated') {
+          this.container.websocket.emitSync(user.id, `day:${status}`, day);
+        }
+      });
+      const formattedResults = results.map(({ date, status, errors }) => ({ date, status, errors }));
+      if (partial !== true && results.some(result => result.status === 'invalid')) {
+        return res.status(400).send({
+          ...this.container.errors.formatErrors({ error: 'validation_failed', error_description: 'Invalid day(s), no day was saved' }),
+          days: formattedResults
+        });
+      }
+      return res.status(200).send({ days: formattedResults });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
   /**
    * Updates a day.
    * 
+   * When the `emotions` body field is given, it replaces all emotions of the day. Emotions can be given as emotion IDs (with the default
+   * intensity) or as day emotions (`{ emotion, intensity, order }`). When the order is missing, the position in the array is used.
+   * 
    * Path : `PATCH /users/:id/days/:date`
    * 
    * @param req Express request
@@ -296,14 +700,14 @@ export default class UserController extends Controller {
   public async updateDayhandler(req: Request, res: Response): Promise<Response> {
     const { description, emotions } = req.body;
     try {
-      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('+days');
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
       if (user == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
           error_description: 'User not found'
         }));
       }
-      const day = user.days.find(day => day.date === req.params.date);
+      const day = await this.container.days.findDay(user.id, req.params.date);
       if (day == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
@@ -316,8 +720,8 @@ export default class UserController extends Controller {
       if (emotions != null) {
         day.emotions = emotions;
       }
-      user.markModified('days');
-      await user.save();
+      await day.save();
+      this.container.websocket.emitSync(user.id, 'day:updated', day);
       return res.status(200).send({ id: day.date });
     } catch (err) {
       this.logger.error(err);
@@ -339,27 +743,231 @@ export default class UserController extends Controller {
    */
   public async deleteDayHandler(req: Request, res: Response): Promise<Response> {
     try {
-      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false).select('days');
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
       if (user == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
           error_description: 'User not found'
         }));
       }
-      const day = user.days.find(day => day.date === req.params.date);
+      const day = await this.container.days.findDay(user.id, req.params.date);
       if (day == null) {
         return res.status(404).send(this.container.errors.formatErrors({
           error: 'not_found',
           error_description: 'Day not found'
         }));
       }
-      _.remove(user.days, day);
-      user.markModified('days');
-      await user.save();
+      day.deleted = true;
+      await day.save();
+      this.container.websocket.emitSync(user.id, 'day:deleted', day);
       return res.status(204).send();
     } catch (err) {
       this.logger.error(err);
       return res.status(500).send(this.container.errors.formatServerError());
     }
   }
+
+  /**
+   * Exports emotions and days of an user.
+   * 
+   * The format is given with the `format` query parameter : `json` (default), `csv` or `ics`. JSON and CSV exports can be imported back.
+   * The export is streamed as an attachment.
+   * 
+   * Path : `GET /users/:id/export`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async exportHandler(req: Request, res: Response): Promise<Response> {
+    const format = (req.query.format ?? 'json') as ExportFormat;
+    try {
+      if (!ExportService.FORMATS.includes(format)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid export format'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      res.status(200).type(ExportService.CONTENT_TYPES[format]).attachment(`export.${format}`);
+      await this.container.exports.exportData(user.id, format, res);
+      res.end();
+      return res;
+    } catch (err) {
+      this.logger.error(err);
+      if (res.headersSent) {
+        res.destroy(err as Error);
+        return res;
+      }
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets statistics of an user.
+   * 
+   * Statistics can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters. Emotions can be
+   * rolled up to their category (`rollup=category`) or to their top-level category (`rollup=root`).
+   * 
+   * Path : `GET /users/:id/stats`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getStatsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const rollup = req.query.rollup as EmotionRollup;
+      if (rollup != null && !EmotionService.ROLLUPS.includes(rollup)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions roll-up'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      return res.status(200).send({ stats: await this.container.stats.getStats(user.id, range, rollup) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets correlations between emotions of an user (co-occurrences, lift and next-day transitions).
+   * 
+   * Correlations can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters. Emotions can be
+   * rolled up to their category (`rollup=category`) or to their top-level category (`rollup=root`).
+   * 
+   * Path : `GET /users/:id/stats/correlations`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getCorrelationsHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const rollup = req.query.rollup as EmotionRollup;
+      if (rollup != null && !EmotionService.ROLLUPS.includes(rollup)) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid emotions roll-up'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      return res.status(200).send({ correlations: await this.container.stats.getCorrelations(user.id, range, rollup) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Gets the mood series of an user, with 7 and 30 days moving averages.
+   * 
+   * The series can be restricted to a date range with the `from`, `to`, `year` and `month` query parameters.
+   * 
+   * Path : `GET /users/:id/stats/mood`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getMoodHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const range = this.container.days.parseDateRange(req.query);
+      if (range == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid date range'
+        }));
+      }
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      return res.status(200).send({ mood: await this.container.stats.getMood(user.id, range) });
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
+
+  /**
+   * Draws the year of an user ("year in pixels").
+   * 
+   * Query parameters :
+   * - `format` : `svg` (default) or `png`
+   * - `layout` : `grid` (one column per month), `calendar` (one column per week) or `circle` (one ring per emotion of the day), defaults to
+   *   the user's default layout or `grid`
+   * - `cellSize` : size of day cells in pixels (with a lower maximum for the circle layout)
+   * - `weekStart` : first day of the week for the calendar layout (ISO day of the week, 1 is monday), defaults to the user's week start
+   * 
+   * Path : `GET /users/:id/years/:year/image`
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @async
+   */
+  public async getYearImageHandler(req: Request, res: Response): Promise<Response> {
+    try {
+      const format = (req.query.format ?? 'svg') as YearImageFormat;
+      const user = await this.db.users.findById(req.params.id).where('deleted').equals(false);
+      if (user == null) {
+        return res.status(404).send(this.container.errors.formatErrors({
+          error: 'not_found',
+          error_description: 'User not found'
+        }));
+      }
+      const options = this.container.image.parseOptions(req.query, { layout: user.settings?.defaultLayout, weekStart: user.profile?.weekStart });
+      if (!/^\d{4}$/.test(req.params.year) || !ImageService.FORMATS.includes(format) || options == null) {
+        return res.status(400).send(this.container.errors.formatErrors({
+          error: 'invalid_request',
+          error_description: 'Invalid year or image options'
+        }));
+      }
+      const { days } = await this.container.days.listDays(user.id, this.container.days.getYearListOptions(Number(req.params.year)));
+      const image = this.container.image.drawYear(Number(req.params.year), days, options);
+      return format === 'png'
+        ? res.status(200).type('image/png').send(this.container.image.toPng(image))
+        : res.status(200).type('image/svg+xml').send(this.container.image.toSvg(image));
+    } catch (err) {
+      this.logger.error(err);
+      return res.status(500).send(this.container.errors.formatServerError());
+    }
+  }
 }
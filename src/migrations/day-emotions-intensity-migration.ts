@@ -0,0 +1,43 @@
+import ServiceContainer from '../services/service-container';
+import Migration from './migration';
+
+/**
+ * Day emotions intensity migration class.
+ * 
+ * This migration converts emotions of days from emotion IDs to day emotions, with the default intensity and the position in the array
+ * as order. Timestamps are not updated, so clients do not sync every day again.
+ */
+export default class DayEmotionsIntensityMigration extends Migration {
+
+  /**
+   * Creates a new day emotions intensity migration.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  public get name(): string {
+    return 'day-emotions-intensity';
+  }
+
+  public async up(): Promise<void> {
+    const { modifiedCount } = await this.db.days.collection.updateMany({ 'emotions.0': { $type: 'objectId' } }, [{
+      $set: {
+        emotions: {
+          $map: {
+            input: { $range: [0, { $size: '$emotions' }] },
+            as: 'index',
+            in: {
+              emotion: { $arrayElemAt: ['$emotions', '$$index'] },
+              intensity: this.container.config.services.days.intensity.default,
+              order: '$$index'
+            }
+          }
+        }
+      }
+    }]);
+    this.logger.info(`${modifiedCount} day(s) migrated to day emotions`);
+  }
+}
@@ -0,0 +1,72 @@
+import { Types } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Migration from './migration';
+
+/**
+ * Days collection migration class.
+ * 
+ * This migration moves days embedded in users (`days` array) to the days collection. Days of an user are removed from the user only once
+ * they are inserted, and already inserted days are not overwritten, so the migration can be resumed. Days are identified by date key, so
+ * embedded days with the same date in different formats are inserted once.
+ */
+export default class DaysCollectionMigration extends Migration {
+
+  /**
+   * Creates a new days collection migration.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  public get name(): string {
+    return 'days-collection';
+  }
+
+  public async up(): Promise<void> {
+    await this.db.days.init();
+    const users = this.db.users.collection.find<{ _id: Types.ObjectId, days: EmbeddedDay[] }>({ days: { $exists: true } }, { projection: { days: 1 } });
+    let count = 0;
+    for await (const user of users) {
+      if (user.days.length > 0) {
+        await this.db.days.collection.bulkWrite(user.days.map(day => {
+          const dateKey = this.container.days.getDateKey(day.date) || null;
+          return {
+            updateOne: {
+              filter: { owner: user._id, ...(dateKey != null ? { dateKey } : { date: day.date }) },
+              update: {
+                $setOnInsert: {
+                  owner: user._id,
+                  date: day.date,
+                  dateKey,
+                  description: day.description ?? null,
+                  emotions: day.emotions ?? [],
+                  deleted: day.deleted ?? false,
+                  createdAt: day.createdAt ?? new Date(),
+                  updatedAt: day.updatedAt ?? new Date()
+                }
+              },
+              upsert: true
+            }
+          };
+        }), { ordered: false });
+      }
+      await this.db.users.collection.updateOne({ _id: user._id }, { $unset: { days: '' } });
+      count += user.days.length;
+    }
+    this.logger.info(`${count} day(s) moved to the days collection`);
+  }
+}
+
+/**
+ * Day embedded in an user, before the migration.
+ */
+interface EmbeddedDay {
+  date: string;
+  description?: string;
+  emotions?: Types.ObjectId[];
+  deleted?: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
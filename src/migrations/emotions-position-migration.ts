@@ -0,0 +1,38 @@
+import ServiceContainer from '../services/service-container';
+import Migration from './migration';
+
+/**
+ * Emotions position migration class.
+ * 
+ * This migration sets positions of existing emotions from their creation order, per owner, and unarchives them. Timestamps are not updated,
+ * so clients do not sync every emotion again.
+ */
+export default class EmotionsPositionMigration extends Migration {
+
+  /**
+   * Creates a new emotions position migration.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  public get name(): string {
+    return 'emotions-position';
+  }
+
+  public async up(): Promise<void> {
+    const emotions = await this.db.emotions.collection.find({ position: { $exists: false } }).sort({ owner: 1, createdAt: 1 }).project({ owner: 1 }).toArray();
+    const positions = new Map<string, number>();
+    const operations = emotions.map(emotion => {
+      const position = positions.get(emotion.owner.toString()) ?? 0;
+      positions.set(emotion.owner.toString(), position + 1);
+      return { updateOne: { filter: { _id: emotion._id }, update: { $set: { position, archived: false } } } };
+    });
+    if (operations.length > 0) {
+      await this.db.emotions.collection.bulkWrite(operations);
+    }
+    this.logger.info(`${operations.length} emotion(s) migrated to positions`);
+  }
+}
@@ -0,0 +1,34 @@
+import Component from '../component';
+import ServiceContainer from '../services/service-container';
+
+/**
+ * Base migration class.
+ * 
+ * Migrations are used to update the data stored in database when models change. They are executed once, in order, when the server starts.
+ * A migration must be able to resume if it has been interrupted.
+ * 
+ * To create a migration, simply extends this class and register it at the end of the migrations list in the `MigrationService`.
+ */
+export default abstract class Migration extends Component {
+
+  /**
+   * Creates a new migration.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Unique name of the migration.
+   */
+  public abstract get name(): string;
+
+  /**
+   * Executes the migration.
+   * 
+   * @async
+   */
+  public abstract up(): Promise<void>;
+}
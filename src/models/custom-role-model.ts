@@ -0,0 +1,109 @@
+import _ from 'lodash';
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import { Permission, Role } from '../services/permission-service';
+import ServiceContainer from '../services/service-container';
+import Timestamps from './model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Custom role attributes.
+ * 
+ * Custom roles are stored in database and merged with roles defined in configuration.
+ */
+export interface CustomRole extends Timestamps {
+  name: Role;
+  extends: Role[];
+  permissions: Permission[];
+}
+
+/**
+ * Custom role document.
+ */
+export interface CustomRoleDocument extends CustomRole, Document {}
+
+/**
+ * Custom role model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface CustomRoleModel extends Model<CustomRoleDocument> {}
+
+/**
+ * Creates the custom role model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): CustomRoleModel {
+  return mongoose.model<CustomRoleDocument, CustomRoleModel>('CustomRole', createCustomRoleSchema(container), 'roles');
+}
+
+/**
+ * Creates the custom role schema.
+ * 
+ * @param container Services container
+ * @returns Custom role schema
+ */
+function createCustomRoleSchema(container: ServiceContainer) {
+  const schema = new Schema<CustomRoleDocument, CustomRoleModel>({
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Role name is required'],
+      match: [/^[a-z][a-z0-9_-]{1,31}$/, 'Invalid role name'],
+      unique: true
+    },
+    extends: {
+      type: [{
+        type: Schema.Types.String
+      }],
+      default: [],
+      validate: {
+        validator: (roles: Role[]) => _.uniq(roles).length === roles.length,
+        message: 'Role already extended'
+      }
+    },
+    permissions: {
+      type: [{
+        type: Schema.Types.String
+      }],
+      default: [],
+      validate: [{
+        validator: (permissions: Permission[]) => permissions.every(permission => container.permissions.isPermission(permission)),
+        message: 'Invalid role permission'
+      }, {
+        validator: (permissions: Permission[]) => _.uniq(permissions).length === permissions.length,
+        message: 'Role permission already exists'
+      }]
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.pre('validate', async function(this: CustomRoleDocument, next) {
+    if (this.isNew && await container.db.roles.exists({ name: this.name })) {
+      this.invalidate('name', 'Role already exists', this.name);
+    }
+
+    if (this.isModified('extends')) {
+      const roles = await container.permissions.getRoles();
+      const configuredRole = container.config.services.permissions.roles[this.name];
+      roles[this.name] = { extends: _.union(configuredRole?.extends, this.extends), permissions: [] };
+      if (!this.extends.every(role => roles[role] != null)) {
+        this.invalidate('extends', 'Extended role not found');
+      } else {
+        try {
+          container.permissions.resolvePermissions(roles, this.name);
+        } catch (err) {
+          this.invalidate('extends', (err as Error).message);
+        }
+      }
+    }
+    next();
+  });
+
+  schema.post('save', () => container.permissions.clearRoles());
+  schema.post('deleteOne', { document: true, query: false }, () => container.permissions.clearRoles());
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
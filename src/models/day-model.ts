@@ -0,0 +1,215 @@
+import _ from 'lodash';
+import moment from 'moment';
+import { Document, Model, Mongoose, Schema, Types } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import { EmotionDocument } from './emotion-model';
+import Timestamps, { Deleted, deletedPlugin } from './model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Day attributes.
+ * 
+ * Deleted days are kept to be returned as tombstones by the sync. The `dateKey` attribute is the date as a number (`YYYYMMDD`),
+ * it is computed from the date to filter, sort and identify days (`2021-1-5` and `2021-01-05` are the same day).
+ * 
+ * Days can't be in the future, in the timezone of the owner. The owner is loaded to get its timezone, unless the timezone is given
+ * in `$locals.timezone` (`null` for the server timezone), so batches load it only once.
+ */
+export interface Day extends Timestamps, Deleted {
+  owner: UserDocument;
+  date: string;
+  dateKey?: number;
+  get emotions(): DayEmotion[];
+  set emotions(emotions: DayEmotionInput[]);
+  description: string;
+}
+
+/**
+ * Day emotion attributes.
+ * 
+ * The intensity is between the configured minimum and maximum intensities. Emotions of a day are sorted by order, which is used
+ * to split the day cell when the year is drawn.
+ */
+export interface DayEmotion {
+  emotion: EmotionDocument;
+  intensity: number;
+  order: number;
+}
+
+/**
+ * Day emotion input.
+ * 
+ * Day emotions can be set with emotion IDs (or documents), or with day emotions where the intensity and the order are optional.
+ */
+export type DayEmotionInput = DayEmotionReference | { emotion: DayEmotionReference, intensity?: number, order?: number };
+
+/**
+ * Reference to an emotion : ID or document.
+ */
+type DayEmotionReference = string | Types.ObjectId | EmotionDocument;
+
+/**
+ * Day document.
+ */
+export interface DayDocument extends Day, Document {}
+
+/**
+ * Day model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface DayModel extends Model<DayDocument> {}
+
+/**
+ * Creates the day model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): DayModel {
+  return mongoose.model<DayDocument, DayModel>('Day', createDaySchema(container), 'days');
+}
+
+/**
+ * Creates the day schema.
+ * 
+ * @param container Services container
+ * @returns Day schema
+ */
+function createDaySchema(container: ServiceContainer) {
+  const schema = new Schema<DayDocument, DayModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Day owner is required']
+    },
+    date: {
+      type: Schema.Types.String,
+      required: [true, 'Day date is required'],
+      // eslint-disable-next-line no-useless-escape
+      match: [/^\d{4}\-(0?[1-9]|1[012])\-(0?[1-9]|[12][0-9]|3[01])$/, 'Invalid day date format'],
+      validate: {
+        validator: (date: string) => {
+          const realDate = moment(date);
+          return realDate.isValid() && realDate.isAfter(moment('2000-01-01'));
+        },
+        message: 'Invalid day date'
+      }
+    },
+    dateKey: {
+      type: Schema.Types.Number,
+      select: false
+    },
+    description: {
+      type: Schema.Types.String,
+      maxlength: [100000, 'Day description is too long'],
+      default: null
+    },
+    emotions: {
+      type: [createDayEmotionSchema(container)],
+      set: normalizeDayEmotions,
+      validate: [{
+        validator: (emotions: DayEmotion[]) => emotions.length > 0,
+        message: 'Day emotions are required'
+      }, {
+        validator: (emotions: DayEmotion[]) => _.uniq(emotions.map(emotion => emotion.emotion?._id.toString())).length === emotions.length,
+        message: 'Day emotion already exists'
+      }]
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.index({ owner: 1, dateKey: 1 }, { unique: true, partialFilterExpression: { dateKey: { $type: 'number' } } });
+
+  schema.pre('validate', async function(this: DayDocument, next) {
+    if (this.isModified('date')) {
+      this.dateKey = container.days.getDateKey(this.date);
+      const timezone = this.$locals.timezone !== undefined ? this.$locals.timezone as string : await container.days.getTimezone(this.owner._id);
+      if (this.dateKey > container.days.getDateKey(container.days.getToday(timezone))) {
+        this.invalidate('date', 'Invalid day date', this.date);
+      }
+      if (this.isNew && await container.db.days.countDocuments({ owner: this.owner, dateKey: this.dateKey }).session(this.$session()) > 0) {
+        this.invalidate('date', 'Day already exists', this.date);
+      }
+    }
+    if (this.isModified('emotions') && this.emotions.length > 0) {
+      const emotionIds = this.emotions.map(emotion => emotion.emotion?._id).filter(id => id != null);
+      if (emotionIds.length !== this.emotions.length) {
+        this.invalidate('emotions', 'Day emotion is required');
+      } else if (await container.db.emotions.countDocuments({ _id: { $in: emotionIds }, owner: this.owner }).session(this.$session()) !== _.uniqBy(emotionIds, id => id.toString()).length) {
+        this.invalidate('emotions', 'Day emotion(s) not found');
+      }
+    }
+    next();
+  });
+
+  schema.plugin(mongooseToJson);
+  schema.plugin(deletedPlugin);
+
+  return schema;
+}
+
+/**
+ * Creates the day emotion subschema.
+ * 
+ * @param container Services container
+ * @returns Day emotion subschema
+ */
+function createDayEmotionSchema(container: ServiceContainer) {
+  const { intensity } = container.config.services.days;
+  const schema = new Schema<DayEmotion>({
+    emotion: {
+      type: Schema.Types.ObjectId,
+      ref: 'Emotion',
+      required: [true, 'Day emotion is required']
+    },
+    intensity: {
+      type: Schema.Types.Number,
+      default: intensity.default,
+      min: [intensity.min, 'Day emotion intensity is too low'],
+      max: [intensity.max, 'Day emotion intensity is too high'],
+      validate: {
+        validator: (value: number) => Number.isInteger(value),
+        message: 'Invalid day emotion intensity'
+      }
+    },
+    order: {
+      type: Schema.Types.Number,
+      default: 0,
+      validate: {
+        validator: (value: number) => Number.isInteger(value) && value >= 0,
+        message: 'Invalid day emotion order'
+      }
+    }
+  }, {
+    _id: false,
+    id: false
+  });
+
+  return schema;
+}
+
+/**
+ * Normalizes day emotions.
+ * 
+ * Emotions can be given as emotion IDs (or documents), or as day emotions. When the order is missing, the position in the array is used.
+ * Day emotions are then sorted by order.
+ * 
+ * This function is a mongoose setter.
+ * 
+ * @param emotions Day emotions
+ * @returns Normalized day emotions
+ */
+function normalizeDayEmotions(emotions: unknown[]): unknown[] {
+  if (!Array.isArray(emotions)) {
+    return emotions;
+  }
+  return _.sortBy(emotions.map((emotion, index) => {
+    if (emotion != null && typeof emotion === 'object' && 'emotion' in emotion) {
+      const { emotion: emotionId, intensity, order } = emotion as DayEmotion;
+      return _.omitBy({ emotion: emotionId, intensity, order: order ?? index }, _.isUndefined);
+    }
+    return { emotion, order: index };
+  }), 'order');
+}
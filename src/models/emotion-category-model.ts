@@ -0,0 +1,115 @@
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import { EmotionDocument } from './emotion-model';
+import Timestamps, { Deleted, deletedPlugin } from './model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Emotion category attributes.
+ * 
+ * Categories are used to group emotions (example : "Joy" > "Proud", "Grateful"). A category can be in a parent category, to create hierarchies.
+ */
+export interface EmotionCategory extends Timestamps, Deleted {
+  owner: UserDocument;
+  name: string;
+  color: string;
+  parent: EmotionCategoryDocument;
+  emotions?: EmotionDocument[];
+}
+
+/**
+ * Emotion category document.
+ */
+export interface EmotionCategoryDocument extends EmotionCategory, Document {}
+
+/**
+ * Emotion category model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface EmotionCategoryModel extends Model<EmotionCategoryDocument> {}
+
+/**
+ * Creates the emotion category model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): EmotionCategoryModel {
+  return mongoose.model<EmotionCategoryDocument, EmotionCategoryModel>('EmotionCategory', createEmotionCategorySchema(container), 'emotionCategories');
+}
+
+/**
+ * Creates the emotion category schema.
+ * 
+ * @param container Services container
+ * @returns Emotion category schema
+ */
+function createEmotionCategorySchema(container: ServiceContainer) {
+  const schema = new Schema<EmotionCategoryDocument, EmotionCategoryModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Emotion category owner is required']
+    },
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Emotion category name is required'],
+      maxlength: [32, 'Emotion category name is too long']
+    },
+    color: {
+      type: Schema.Types.String,
+      match: [/#([a-f0-9]{3}){1,2}\b/i, 'Invalid emotion category color'],
+      default: null
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'EmotionCategory',
+      default: null
+    }
+  }, {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true }
+  });
+
+  schema.virtual('emotions', {
+    ref: 'Emotion',
+    localField: '_id',
+    foreignField: 'category'
+  });
+
+  schema.pre('validate', async function(this: EmotionCategoryDocument, next) {
+    if (this.isModified('name') && await container.db.emotionCategories.exists({ owner: this.owner, name: this.name, deleted: false })) {
+      this.invalidate('name', 'Emotion category name already exists', this.name);
+    }
+
+    if (this.isModified('parent') && this.parent != null) {
+      const ancestors = [this._id.toString()];
+      let parent = await container.db.emotionCategories.findOne({ _id: this.parent._id, owner: this.owner, deleted: false });
+      if (parent == null) {
+        this.invalidate('parent', 'Parent emotion category not found');
+      }
+      while (parent != null) {
+        if (ancestors.includes(parent.id)) {
+          this.invalidate('parent', 'Emotion category can\'t be in itself');
+          break;
+        }
+        ancestors.push(parent.id);
+        parent = parent.parent != null ? await container.db.emotionCategories.findById(parent.parent._id) : null;
+      }
+    }
+
+    const count = await container.db.emotionCategories.countDocuments({ owner: this.owner });
+    if (count > 1000) {
+      this.invalidate('name', 'Too many emotion categories');
+    }
+
+    next();
+  });
+
+  schema.plugin(mongooseToJson);
+  schema.plugin(deletedPlugin);
+
+  return schema;
+}
@@ -1,16 +1,28 @@
 import { Document, Model, Mongoose, Schema } from 'mongoose';
 import ServiceContainer from '../services/service-container';
+import { EmotionCategoryDocument } from './emotion-category-model';
 import Timestamps, { Deleted, deletedPlugin } from './model';
 import { UserDocument } from './user-model';
 const mongooseToJson = require('@meanie/mongoose-to-json');
 
 /**
  * Emotion attributes.
+ * 
+ * The valence (from -1 unpleasant to 1 pleasant) and the energy (from -1 calm to 1 energetic) are optional, and are used to compute mood scores.
+ * Emotions can be grouped in categories.
+ * 
+ * Emotions are sorted by position, new emotions are added at the end. Archived emotions are hidden from pickers, but are still shown on past days.
  */
 export interface Emotion extends Timestamps, Deleted {
   owner: UserDocument;
   name: string;
   color: string;
+  valence: number;
+  energy: number;
+  category: EmotionCategoryDocument;
+  position: number;
+  icon: string;
+  archived: boolean;
 }
 
 /**
@@ -56,6 +68,39 @@ function createEmotionSchema(container: ServiceContainer) {
       type: Schema.Types.String,
       required: [true, 'Emotion color is required'],
       match: [/#([a-f0-9]{3}){1,2}\b/i, 'Invalid emotion color']
+    },
+    valence: {
+      type: Schema.Types.Number,
+      min: [-1, 'Emotion valence is too low'],
+      max: [1, 'Emotion valence is too high'],
+      default: null
+    },
+    energy: {
+      type: Schema.Types.Number,
+      min: [-1, 'Emotion energy is too low'],
+      max: [1, 'Emotion energy is too high'],
+      default: null
+    },
+    category: {
+      type: Schema.Types.ObjectId,
+      ref: 'EmotionCategory',
+      default: null
+    },
+    position: {
+      type: Schema.Types.Number,
+      validate: {
+        validator: (value: number) => Number.isInteger(value) && value >= 0,
+        message: 'Invalid emotion position'
+      }
+    },
+    icon: {
+      type: Schema.Types.String,
+      maxlength: [32, 'Emotion icon is too long'],
+      default: null
+    },
+    archived: {
+      type: Schema.Types.Boolean,
+      default: false
     }
   }, {
     timestamps: true
@@ -66,6 +111,16 @@ function createEmotionSchema(container: ServiceContainer) {
       this.invalidate('name', 'Emotion name already exists', this.name);
     }
 
+    if (this.isModified('category') && this.category != null
+      && !await container.db.emotionCategories.exists({ _id: this.category._id, owner: this.owner, deleted: false })) {
+      this.invalidate('category', 'Emotion category not found');
+    }
+
+    if (this.isNew && this.position == null) {
+      const lastEmotion = await container.db.emotions.findOne({ owner: this.owner, deleted: false }).sort({ position: -1 }).select('position');
+      this.position = lastEmotion?.position != null ? lastEmotion.position + 1 : 0;
+    }
+
     const count = await container.db.emotions.countDocuments({ owner: this.owner });
     if (count > 1000) {
       this.invalidate('name', 'To many emotions');
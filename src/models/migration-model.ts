@@ -0,0 +1,55 @@
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Timestamps from './model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Migration attributes.
+ * 
+ * A migration is stored when it has been executed, so it is not executed again.
+ */
+export interface Migration extends Timestamps {
+  name: string;
+}
+
+/**
+ * Migration document.
+ */
+export interface MigrationDocument extends Migration, Document {}
+
+/**
+ * Migration model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface MigrationModel extends Model<MigrationDocument> {}
+
+/**
+ * Creates the migration model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): MigrationModel {
+  return mongoose.model<MigrationDocument, MigrationModel>('Migration', createMigrationSchema(), 'migrations');
+}
+
+/**
+ * Creates the migration schema.
+ * 
+ * @returns Migration schema
+ */
+function createMigrationSchema() {
+  const schema = new Schema<MigrationDocument, MigrationModel>({
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Migration name is required'],
+      unique: true
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
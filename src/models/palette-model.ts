@@ -0,0 +1,137 @@
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Timestamps, { Deleted, deletedPlugin } from './model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Palette attributes.
+ * 
+ * A palette is a set of emotions published by an user, which can be imported by other users. Emotions of a palette are copies,
+ * they are not linked to emotions of the owner.
+ */
+export interface Palette extends Timestamps, Deleted {
+  owner: UserDocument;
+  name: string;
+  description: string;
+  emotions: PaletteEmotion[];
+}
+
+/**
+ * Palette emotion attributes.
+ */
+export interface PaletteEmotion {
+  name: string;
+  color: string;
+  valence?: number;
+  energy?: number;
+}
+
+/**
+ * Palette document.
+ */
+export interface PaletteDocument extends Palette, Document {}
+
+/**
+ * Palette model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface PaletteModel extends Model<PaletteDocument> {}
+
+/**
+ * Creates the palette model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): PaletteModel {
+  return mongoose.model<PaletteDocument, PaletteModel>('Palette', createPaletteSchema(container), 'palettes');
+}
+
+/**
+ * Creates the palette schema.
+ * 
+ * @param container Services container
+ * @returns Palette schema
+ */
+function createPaletteSchema(container: ServiceContainer) {
+  const schema = new Schema<PaletteDocument, PaletteModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Palette owner is required']
+    },
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Palette name is required'],
+      maxlength: [32, 'Palette name is too long']
+    },
+    description: {
+      type: Schema.Types.String,
+      maxlength: [1000, 'Palette description is too long'],
+      default: null
+    },
+    emotions: {
+      type: [createPaletteEmotionSchema()],
+      validate: [{
+        validator: (emotions: PaletteEmotion[]) => emotions.length > 0,
+        message: 'Palette emotions are required'
+      }, {
+        validator: (emotions: PaletteEmotion[]) => emotions.length <= 1000,
+        message: 'Too many palette emotions'
+      }]
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.pre('validate', async function(this: PaletteDocument, next) {
+    const count = await container.db.palettes.countDocuments({ owner: this.owner });
+    if (count > 100) {
+      this.invalidate('name', 'Too many palettes');
+    }
+    next();
+  });
+
+  schema.plugin(mongooseToJson);
+  schema.plugin(deletedPlugin);
+
+  return schema;
+}
+
+/**
+ * Creates the palette emotion subschema.
+ * 
+ * @returns Palette emotion subschema
+ */
+function createPaletteEmotionSchema() {
+  const schema = new Schema<PaletteEmotion>({
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Palette emotion name is required'],
+      maxlength: [16, 'Palette emotion name is too long']
+    },
+    color: {
+      type: Schema.Types.String,
+      required: [true, 'Palette emotion color is required'],
+      match: [/#([a-f0-9]{3}){1,2}\b/i, 'Invalid palette emotion color']
+    },
+    valence: {
+      type: Schema.Types.Number,
+      min: [-1, 'Palette emotion valence is too low'],
+      max: [1, 'Palette emotion valence is too high'],
+      default: null
+    },
+    energy: {
+      type: Schema.Types.Number,
+      min: [-1, 'Palette emotion energy is too low'],
+      max: [1, 'Palette emotion energy is too high'],
+      default: null
+    }
+  }, {
+    _id: false,
+    id: false
+  });
+
+  return schema;
+}
@@ -0,0 +1,103 @@
+import _ from 'lodash';
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import { Permission } from '../services/permission-service';
+import ServiceContainer from '../services/service-container';
+import Timestamps, { Deleted, deletedPlugin } from './model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Personal access token attributes.
+ * 
+ * Only the hash of the token secret is stored.
+ */
+export interface PersonalAccessToken extends Timestamps, Deleted {
+  owner: UserDocument;
+  name: string;
+  scopes: Permission[];
+  hash: string;
+  expiresAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * Personal access token document.
+ */
+export interface PersonalAccessTokenDocument extends PersonalAccessToken, Document {}
+
+/**
+ * Personal access token model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface PersonalAccessTokenModel extends Model<PersonalAccessTokenDocument> {}
+
+/**
+ * Creates the personal access token model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): PersonalAccessTokenModel {
+  return mongoose.model<PersonalAccessTokenDocument, PersonalAccessTokenModel>('PersonalAccessToken', createPersonalAccessTokenSchema(container), 'personalAccessTokens');
+}
+
+/**
+ * Creates the personal access token schema.
+ * 
+ * @param container Services container
+ * @returns Personal access token schema
+ */
+function createPersonalAccessTokenSchema(container: ServiceContainer) {
+  const schema = new Schema<PersonalAccessTokenDocument, PersonalAccessTokenModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Personal access token owner is required'],
+      index: true
+    },
+    name: {
+      type: Schema.Types.String,
+      required: [true, 'Personal access token name is required'],
+      maxlength: [32, 'Personal access token name is too long']
+    },
+    scopes: {
+      type: [{
+        type: Schema.Types.String
+      }],
+      validate: [{
+        validator: (scopes: Permission[]) => scopes.length > 0,
+        message: 'Personal access token scopes are required'
+      }, {
+        validator: (scopes: Permission[]) => scopes.every(scope => container.permissions.isPermission(scope)),
+        message: 'Invalid personal access token scope'
+      }, {
+        validator: (scopes: Permission[]) => _.uniq(scopes).length === scopes.length,
+        message: 'Personal access token scope already exists'
+      }]
+    },
+    hash: {
+      type: Schema.Types.String,
+      required: [true, 'Personal access token hash is required'],
+      select: false
+    },
+    expiresAt: {
+      type: Schema.Types.Date,
+      required: [true, 'Personal access token expiration is required'],
+      validate: {
+        validator: (expiresAt: Date) => expiresAt.getTime() > Date.now(),
+        message: 'Invalid personal access token expiration'
+      }
+    },
+    lastUsedAt: {
+      type: Schema.Types.Date,
+      default: null
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.plugin(mongooseToJson);
+  schema.plugin(deletedPlugin);
+
+  return schema;
+}
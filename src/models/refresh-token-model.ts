@@ -0,0 +1,75 @@
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Timestamps from './model';
+import { SessionDocument } from './session-model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Refresh token attributes.
+ * 
+ * Refresh tokens are grouped by session : every token obtained by rotating a refresh token belongs to the same session as the rotated token.
+ */
+export interface RefreshToken extends Timestamps {
+  owner: UserDocument;
+  session: SessionDocument;
+  used: boolean;
+  expiresAt: Date;
+}
+
+/**
+ * Refresh token document.
+ */
+export interface RefreshTokenDocument extends RefreshToken, Document {}
+
+/**
+ * Refresh token model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface RefreshTokenModel extends Model<RefreshTokenDocument> {}
+
+/**
+ * Creates the refresh token model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): RefreshTokenModel {
+  return mongoose.model<RefreshTokenDocument, RefreshTokenModel>('RefreshToken', createRefreshTokenSchema(), 'refreshTokens');
+}
+
+/**
+ * Creates the refresh token schema.
+ * 
+ * @returns Refresh token schema
+ */
+function createRefreshTokenSchema() {
+  const schema = new Schema<RefreshTokenDocument, RefreshTokenModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Refresh token owner is required']
+    },
+    session: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      required: [true, 'Refresh token session is required'],
+      index: true
+    },
+    used: {
+      type: Schema.Types.Boolean,
+      default: false
+    },
+    expiresAt: {
+      type: Schema.Types.Date,
+      required: [true, 'Refresh token expiration is required'],
+      expires: 0
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
@@ -0,0 +1,85 @@
+import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ServiceContainer from '../services/service-container';
+import Timestamps from './model';
+import { UserDocument } from './user-model';
+const mongooseToJson = require('@meanie/mongoose-to-json');
+
+/**
+ * Session attributes.
+ * 
+ * A session is created when an user signs in, and all access and refresh tokens issued from this sign in are tied to it.
+ */
+export interface Session extends Timestamps {
+  owner: UserDocument;
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  revoked: boolean;
+  expiresAt: Date;
+}
+
+/**
+ * Session document.
+ */
+export interface SessionDocument extends Session, Document {}
+
+/**
+ * Session model.
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface SessionModel extends Model<SessionDocument> {}
+
+/**
+ * Creates the session model.
+ * 
+ * @param container Services container
+ * @param mongoose Mongoose instance
+ */
+export default function createModel(container: ServiceContainer, mongoose: Mongoose): SessionModel {
+  return mongoose.model<SessionDocument, SessionModel>('Session', createSessionSchema(), 'sessions');
+}
+
+/**
+ * Creates the session schema.
+ * 
+ * @returns Session schema
+ */
+function createSessionSchema() {
+  const schema = new Schema<SessionDocument, SessionModel>({
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Session owner is required'],
+      index: true
+    },
+    userAgent: {
+      type: Schema.Types.String,
+      default: null
+    },
+    ip: {
+      type: Schema.Types.String,
+      default: null
+    },
+    lastUsedAt: {
+      type: Schema.Types.Date,
+      default: () => new Date()
+    },
+    revoked: {
+      type: Schema.Types.Boolean,
+      default: false,
+      select: false
+    },
+    expiresAt: {
+      type: Schema.Types.Date,
+      required: [true, 'Session expiration is required'],
+      expires: 0,
+      select: false
+    }
+  }, {
+    timestamps: true
+  });
+
+  schema.plugin(mongooseToJson);
+
+  return schema;
+}
@@ -1,6 +1,6 @@
 import _ from 'lodash';
-import moment from 'moment';
 import { Document, Model, Mongoose, Schema } from 'mongoose';
+import ImageService, { YearImageLayout } from '../services/image-service';
 import { Permission, Role } from '../services/permission-service';
 import ServiceContainer from '../services/service-container';
 import { EmotionDocument } from './emotion-model';
@@ -13,15 +13,44 @@ const mongooseToJson = require('@meanie/mongoose-to-json');
 export interface User extends Timestamps, Deleted {
   googleId: string;
   role: Role;
+  profile: UserProfile;
+  settings: UserSettings;
   emotions: EmotionDocument[];
-  days: Day[];
+}
+
+/**
+ * User profile attributes.
+ * 
+ * Every attribute is optional (`null` if not set). The timezone (IANA name) is used to know the current day of the user, the server timezone
+ * is used if it is `null`. The week start (ISO day of the week, 1 is monday) is the default week start of year images.
+ */
+export interface UserProfile {
+  displayName: string;
+  avatarUrl: string;
+  locale: string;
+  timezone: string;
+  weekStart: number;
+}
+
+/**
+ * User settings attributes.
+ * 
+ * The default layout is used for year images when no layout is requested. When the profile is public, the display name and avatar of the
+ * user are shown on published palettes.
+ */
+export interface UserSettings {
+  defaultLayout: YearImageLayout;
+  privacy: {
+    publicProfile: boolean;
+  };
 }
 
 /**
  * User document.
  */
 export interface UserDocument extends User, Document {
-  hasPermission(perm: Permission): boolean;
+  hasPermission(perm: Permission): Promise<boolean>;
+  updateProfile(attributes: { profile?: Partial<UserProfile>, settings?: Partial<Omit<UserSettings, 'privacy'>> & { privacy?: Partial<UserSettings['privacy']> } }): void;
 }
 
 /**
@@ -30,15 +59,6 @@ export interface UserDocument extends User, Document {
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 export interface UserModel extends Model<UserDocument> {}
 
-/**
- * Day attributes.
- */
-export interface Day extends Timestamps {
-  date: string;
-  emotions: EmotionDocument[];
-  description: string;
-}
-
 /**
  * Creates the user model.
  * 
@@ -64,19 +84,70 @@ function createUserSchema(container: ServiceContainer) {
     },
     role: {
       type: Schema.Types.String,
-      enum: Object.keys(container.config.services.permissions.roles),
-      default: container.permissions.defaultRole
-    },
-    days: {
-      type: [{
-        type: createDaySchema()
-      }],
-      default: [],
+      required: [true, 'User role is required'],
+      default: container.permissions.defaultRole,
       validate: {
-        validator: (days: Day[]) => _.uniq(days.map(day => day.date)).length === days.length,
-        message: 'Day already exists'
+        validator: async (role: Role) => await container.permissions.roleExists(role),
+        message: 'Invalid user role'
+      }
+    },
+    profile: {
+      displayName: {
+        type: Schema.Types.String,
+        default: null,
+        trim: true,
+        maxlength: [64, 'Display name is too long']
+      },
+      avatarUrl: {
+        type: Schema.Types.String,
+        default: null,
+        maxlength: [2048, 'Avatar URL is too long'],
+        validate: {
+          validator: (avatarUrl: string) => avatarUrl == null || isHttpUrl(avatarUrl),
+          message: 'Invalid avatar URL'
+        }
+      },
+      locale: {
+        type: Schema.Types.String,
+        default: null,
+        validate: {
+          validator: (locale: string) => locale == null || isLocale(locale),
+          message: 'Invalid locale'
+        }
       },
-      select: false
+      timezone: {
+        type: Schema.Types.String,
+        default: null,
+        validate: {
+          validator: (timezone: string) => timezone == null || container.days.isValidTimezone(timezone),
+          message: 'Invalid user timezone'
+        }
+      },
+      weekStart: {
+        type: Schema.Types.Number,
+        default: null,
+        validate: {
+          validator: (weekStart: number) => weekStart == null || (Number.isInteger(weekStart) && weekStart >= 1 && weekStart <= 7),
+          message: 'Invalid week start'
+        }
+      }
+    },
+    settings: {
+      defaultLayout: {
+        type: Schema.Types.String,
+        default: null,
+        validate: {
+          validator: (layout: YearImageLayout) => layout == null || ImageService.LAYOUTS.includes(layout),
+          message: 'Invalid default layout'
+        }
+      },
+      privacy: {
+        publicProfile: {
+          type: Schema.Types.Boolean,
+          default: false,
+          required: [true, 'Public profile setting is required']
+        }
+      }
     }
   }, {
     timestamps: true,
@@ -90,18 +161,21 @@ function createUserSchema(container: ServiceContainer) {
     foreignField: 'owner'
   });
 
-  schema.method('hasPermission', function(this: UserDocument, perm: Permission) {
-    return container.permissions.getPermissions(this.role).includes(perm);
+  schema.method('hasPermission', async function(this: UserDocument, perm: Permission) {
+    return (await container.permissions.getPermissions(this.role)).includes(perm);
   });
 
-  schema.pre('validate', async function(this: UserDocument, next) {
-    if (this.isModified('days')) {
-      await this.populate('days.emotions', 'owner');
-      if (!this.days.every(day => day.emotions.every(emotion => emotion.owner.toString() === this.id))) {
-        this.invalidate('days', 'Day emotion(s) not found');
+  schema.method('updateProfile', function(this: UserDocument, attributes: { profile?: Record<string, unknown>, settings?: Record<string, unknown> }) {
+    const paths = [
+      'profile.displayName', 'profile.avatarUrl', 'profile.locale', 'profile.timezone', 'profile.weekStart',
+      'settings.defaultLayout', 'settings.privacy.publicProfile'
+    ];
+    for (const path of paths) {
+      const value = _.get(attributes, path);
+      if (value !== undefined) {
+        this.set(path, value);
       }
     }
-    next();
   });
 
   schema.plugin(mongooseToJson);
@@ -111,48 +185,30 @@ function createUserSchema(container: ServiceContainer) {
 }
 
 /**
- * Creates the day subschema.
+ * Checks if an URL is a valid HTTP(S) URL.
  * 
- * @returns Day subschema
+ * @param url URL
+ * @returns `true` if the URL is valid
  */
-function createDaySchema() {
-  const schema = new Schema<Day>({
-    date: {
-      type: Schema.Types.String,
-      required: [true, 'Day date is required'],
-      // eslint-disable-next-line no-useless-escape
-      match: [/^\d{4}\-(0?[1-9]|1[012])\-(0?[1-9]|[12][0-9]|3[01])$/, 'Invalid day date format'],
-      validate: {
-        validator: (date: string) => {
-          const realDate = moment(date);
-          return realDate.isValid() && realDate.isBefore(moment()) && realDate.isAfter(moment('2000-01-01'));
-        },
-        message: 'Invalid day date'
-      }
-    },
-    description: {
-      type: Schema.Types.String,
-      maxlength: [100000, 'Day description is too long'],
-      default: null
-    },
-    emotions: {
-      type: [{
-        type: Schema.Types.ObjectId,
-        ref: 'Emotion',
-      }],
-      validate: [{
-        validator: (emotions: EmotionDocument[]) => emotions.length > 0,
-        message: 'Day emotions are required'
-      }, {
-        validator: (emotions: EmotionDocument[]) => _.uniq(emotions.map(emotion => emotion.id)).length === emotions.length,
-        message: 'Day emotion already exists'
-      }]
-    }
-  }, {
-    _id: false,
-    id: false,
-    timestamps: true
-  });
+function isHttpUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch (err) {
+    return false;
+  }
+}
 
-  return schema;
+/**
+ * Checks if a locale is a valid BCP 47 language tag.
+ * 
+ * @param locale Locale (example : `fr-FR`)
+ * @returns `true` if the locale is valid
+ */
+function isLocale(locale: string): boolean {
+  try {
+    Intl.DateTimeFormat.supportedLocalesOf(locale);
+    return true;
+  } catch (err) {
+    return false;
+  }
 }
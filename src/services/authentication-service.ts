@@ -1,7 +1,12 @@
-import { NextFunction, Request, Response } from 'express';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { FilterQuery, isValidObjectId } from 'mongoose';
+import { PersonalAccessTokenDocument } from '../models/personal-access-token-model';
+import { SessionDocument } from '../models/session-model';
+import { UserDocument } from '../models/user-model';
+import { Permission } from './permission-service';
 import Service from './service';
 import ServiceContainer from './service-container';
-import { AccessTokenData } from './token-service';
+import { AccessTokenData, RefreshTokenData } from './token-service';
 
 /**
  * Authentication service class.
@@ -10,6 +15,9 @@ import { AccessTokenData } from './token-service';
  */
 export default class AuthenticationService extends Service {
 
+  public static readonly PERSONAL_ACCESS_TOKEN_PREFIX = 'dty_';
+  private static readonly ACTIVITY_INTERVAL = 60000;
+
   /**
    * Creates a new authentication service.
    * 
@@ -19,10 +27,112 @@ export default class AuthenticationService extends Service {
     super(container);
   }
 
+  /**
+   * Creates a new session for an user.
+   * 
+   * The user agent and IP address are read from the request.
+   * 
+   * @param user User
+   * @param req Express request
+   * @returns Created session
+   * @async
+   */
+  public async createSession(user: UserDocument, req: Request): Promise<SessionDocument> {
+    return await this.db.sessions.create({
+      owner: user.id,
+      userAgent: req.get('user-agent'),
+      ip: req.ip,
+      expiresAt: this.getSessionExpiration()
+    });
+  }
+
+  /**
+   * Revokes sessions.
+   * 
+   * Revoked sessions can't be used anymore, and all tokens issued for them are rejected.
+   * 
+   * @param filter Sessions filter
+   * @returns Number of revoked sessions
+   * @async
+   */
+  public async revokeSessions(filter: FilterQuery<SessionDocument>): Promise<number> {
+    const { modifiedCount } = await this.db.sessions.updateMany({ ...filter, revoked: false }, { revoked: true });
+    return modifiedCount;
+  }
+
+  /**
+   * Generates an access token and a refresh token for a session.
+   * 
+   * The refresh token is stored in database and the session expiration is extended.
+   * 
+   * @param session Session
+   * @returns Generated tokens
+   * @async
+   */
+  public async generateTokens(session: SessionDocument): Promise<AuthenticationTokens> {
+    const userId = session.owner.toString();
+    const sessionId = session.id as string;
+    const accessTokenExpiration = parseInt(process.env.ACCESS_TOKEN_EXPIRATION, 10);
+    const refreshTokenExpiration = parseInt(process.env.REFRESH_TOKEN_EXPIRATION, 10);
+    session.expiresAt = this.getSessionExpiration();
+    await session.save();
+    const refreshToken = await this.db.refreshTokens.create({
+      owner: userId,
+      session,
+      expiresAt: session.expiresAt
+    });
+    return {
+      access_token: await this.container.tokens.encode<AccessTokenData>({ userId, sessionId }, process.env.ACCESS_TOKEN_KEY, { expiresIn: accessTokenExpiration }),
+      refresh_token: await this.container.tokens.encode<RefreshTokenData>({ userId, tokenId: refreshToken.id }, process.env.REFRESH_TOKEN_KEY, { expiresIn: refreshTokenExpiration }),
+      token_type: 'Bearer',
+      expires_in: accessTokenExpiration
+    };
+  }
+
+  /**
+   * Rotates a refresh token.
+   * 
+   * The refresh token is marked as used and new tokens are generated for the same session. If the refresh token was already used, the whole session is revoked
+   * because the token may have been stolen.
+   * 
+   * @param token Refresh token
+   * @param req Express request, used to update the session user agent and IP address
+   * @returns Generated tokens, or `null` if the refresh token is invalid
+   * @async
+   */
+  public async refreshTokens(token: string, req: Request): Promise<AuthenticationTokens> {
+    let data: RefreshTokenData;
+    try {
+      data = await this.container.tokens.decode<RefreshTokenData>(token, process.env.REFRESH_TOKEN_KEY);
+    } catch (err) {
+      this.logger.error('Could not decode refresh token :', (err as Error).message);
+      return null;
+    }
+    const refreshToken = await this.db.refreshTokens.findOneAndUpdate({ _id: data.tokenId, used: false }, { used: true });
+    if (refreshToken == null) {
+      const reusedToken = await this.db.refreshTokens.findById(data.tokenId);
+      if (reusedToken != null && await this.revokeSessions({ _id: reusedToken.session }) > 0) {
+        this.logger.warn('Refresh token', reusedToken.id, 'was reused, revoked session', reusedToken.session.toString());
+      }
+      return null;
+    }
+    const session = await this.db.sessions.findOne({ _id: refreshToken.session, revoked: false });
+    if (session == null || !await this.db.users.exists({ _id: data.userId, deleted: false })) {
+      return null;
+    }
+    session.userAgent = req.get('user-agent');
+    session.ip = req.ip;
+    session.lastUsedAt = new Date();
+    return await this.generateTokens(session);
+  }
+
   /**
    * Authenticates an user.
    * 
-   * A token must be provided in the request header `x-access-token`. If the token is valid, the user is stored into `res.locals.authUser`.
+   * A token must be provided in the request header `x-access-token`, it can be an access token or a personal access token. If the token is valid, the user is stored
+   * into `res.locals.authUser`, and :
+   * - for an access token, the session is stored into `res.locals.authSession`
+   * - for a personal access token, the token scopes are stored into `res.locals.authScopes`
    * 
    * Note : This handler works even if no token is provided. To block the request, use `isAuthenticatedHandler` after this handler to send an error when authentication
    * is invalid.
@@ -38,10 +148,14 @@ export default class AuthenticationService extends Service {
     const token = req.headers?.authorization?.split(' ')[1];
     if (token != null) {
       try {
-        const data = await this.container.tokens.decode<AccessTokenData>(token, process.env.ACCESS_TOKEN_KEY);
-        const user = await this.container.db.users.findById(data.userId).where('deleted').equals(false).select('+deleted +emotions +days').populate('emotions', '+deleted').populate('days.emotions', '+deleted');
+        const credentials = token.startsWith(AuthenticationService.PERSONAL_ACCESS_TOKEN_PREFIX)
+          ? await this.container.auth.verifyPersonalAccessToken(token)
+          : await this.container.auth.verifyAccessToken(token);
+        const user = await this.container.db.users.findById(credentials.userId).where('deleted').equals(false).select('+deleted +emotions').populate('emotions', '+deleted');
         if (user != null) {
           res.locals.authUser = user;
+          res.locals.authSession = credentials.session;
+          res.locals.authScopes = credentials.scopes;
         }
       } catch (err) {
         this.logger.error('Could not authenticate :', (err as Error).message);
@@ -67,4 +181,152 @@ export default class AuthenticationService extends Service {
       error_description: 'Not authenticated'
     }));
   }
+
+  /**
+   * Checks if the authenticated user has permissions.
+   * 
+   * When authenticated with a personal access token, permissions must also be in the token scopes. If the user is not allowed, this returns an error with code 403.
+   * 
+   * @param perms Required permissions
+   * @returns Handler
+   */
+  public hasPermissionsHandler(...perms: Permission[]): RequestHandler {
+    return async (req, res, next) => {
+      try {
+        const authUser: UserDocument = res.locals.authUser;
+        const authScopes: Permission[] = res.locals.authScopes;
+        const userPerms = await this.container.permissions.getPermissions(authUser.role);
+        return perms.every(perm => userPerms.includes(perm) && (authScopes == null || authScopes.includes(perm))) ? next() : res.status(403).json(this.container.errors.formatErrors({
+          error: 'forbidden',
+          error_description: 'Permission denied'
+        }));
+      } catch (err) {
+        this.logger.error(err);
+        return res.status(500).json(this.container.errors.formatServerError());
+      }
+    };
+  }
+
+  /**
+   * Checks if an user is authenticated with a session.
+   * 
+   * Requests authenticated with a personal access token are rejected with code 403. This is used to protect credentials management.
+   * 
+   * This method is a handler.
+   * 
+   * @param req Express request
+   * @param res Express response
+   * @param next Next handler
+   */
+  public async isSessionAuthenticatedHandler(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    return res.locals.authSession ? next() : res.status(403).json(this.container.errors.formatErrors({
+      error: 'forbidden',
+      error_description: 'This action requires a session'
+    }));
+  }
+
+  /**
+   * Verifies an access token.
+   * 
+   * The session of the access token must not be revoked.
+   * 
+   * @param token Access token
+   * @returns Authentication credentials
+   * @async
+   */
+  public async verifyAccessToken(token: string): Promise<AuthenticationCredentials> {
+    const data = await this.container.tokens.decode<AccessTokenData>(token, process.env.ACCESS_TOKEN_KEY);
+    const session = await this.db.sessions.findOne({ _id: data.sessionId, revoked: false }).where('owner').equals(data.userId);
+    if (session == null) {
+      throw new Error('Session not found or revoked');
+    }
+    if (Date.now() - session.lastUsedAt.getTime() > AuthenticationService.ACTIVITY_INTERVAL) {
+      await this.db.sessions.updateOne({ _id: session.id }, { lastUsedAt: new Date() });
+    }
+    return { userId: data.userId, session };
+  }
+
+  /**
+   * Creates a personal access token.
+   * 
+   * The returned token string contains the secret and can't be retrieved later, because only the secret hash is stored.
+   * 
+   * @param user Token owner
+   * @param name Token name
+   * @param scopes Token scopes
+   * @param expiresAt Token expiration date
+   * @returns Created token document and token string
+   * @async
+   */
+  public async createPersonalAccessToken(user: UserDocument, name: string, scopes: Permission[], expiresAt: Date): Promise<{ personalAccessToken: PersonalAccessTokenDocument, token: string }> {
+    const secret = this.container.crypto.generateRandomString(40);
+    const personalAccessToken = new this.db.personalAccessTokens({ owner: user.id, name, scopes, expiresAt });
+    personalAccessToken.hash = await this.container.crypto.hash(secret, parseInt(process.env.HASH_SALT, 10));
+    await personalAccessToken.save();
+    return { personalAccessToken, token: `${AuthenticationService.PERSONAL_ACCESS_TOKEN_PREFIX}${personalAccessToken.id}_${secret}` };
+  }
+
+  /**
+   * Verifies a personal access token.
+   * 
+   * Successful verifications are cached to avoid hashing the secret on every request.
+   * 
+   * @param token Personal access token
+   * @returns Authentication credentials
+   * @async
+   */
+  public async verifyPersonalAccessToken(token: string): Promise<AuthenticationCredentials> {
+    const [id, secret] = token.substring(AuthenticationService.PERSONAL_ACCESS_TOKEN_PREFIX.length).split('_');
+    if (!isValidObjectId(id) || secret == null) {
+      throw new Error('Malformed personal access token');
+    }
+    const personalAccessToken = await this.db.personalAccessTokens.findById(id).where('deleted').equals(false).where('expiresAt').gt(Date.now()).select('+hash');
+    if (personalAccessToken == null) {
+      throw new Error('Personal access token not found or expired');
+    }
+    const cacheKey = `personalAccessToken.${personalAccessToken.id}`;
+    const secretDigest = this.container.crypto.encrypt(secret);
+    if (this.container.cache.get<string>(cacheKey) !== secretDigest) {
+      if (!await this.container.crypto.compare(secret, personalAccessToken.hash)) {
+        throw new Error('Invalid personal access token');
+      }
+      this.container.cache.set(cacheKey, secretDigest);
+    }
+    if (personalAccessToken.lastUsedAt == null || Date.now() - personalAccessToken.lastUsedAt.getTime() > AuthenticationService.ACTIVITY_INTERVAL) {
+      await this.db.personalAccessTokens.updateOne({ _id: personalAccessToken.id }, { lastUsedAt: new Date() });
+    }
+    return { userId: personalAccessToken.owner.toString(), scopes: personalAccessToken.scopes };
+  }
+
+  /**
+   * Gets the expiration date of a session used now.
+   * 
+   * Sessions expire when their refresh tokens expire.
+   * 
+   * @returns Session expiration date
+   */
+  private getSessionExpiration(): Date {
+    return new Date(Date.now() + parseInt(process.env.REFRESH_TOKEN_EXPIRATION, 10) * 1000);
+  }
+}
+
+/**
+ * Authentication tokens.
+ */
+export interface AuthenticationTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+}
+
+/**
+ * Authentication credentials.
+ * 
+ * Credentials are obtained by verifying an access token (with session) or a personal access token (with scopes).
+ */
+export interface AuthenticationCredentials {
+  userId: string;
+  session?: SessionDocument;
+  scopes?: Permission[];
 }
@@ -1,5 +1,6 @@
 import fs from 'fs';
 import YAML from 'yaml';
+import { PaletteEmotion } from '../models/palette-model';
 import Service from './service';
 import ServiceContainer from './service-container';
 
@@ -106,6 +107,52 @@ export interface ServicesConfiguration {
   express: {
     requestSizeLimit: string;
   };
+  websocket: {
+    origins: string | string[];
+  };
+  sync: {
+    overlap: number;
+    maxChanges: number;
+  };
+  days: {
+    pageSize: number;
+    maxPageSize: number;
+    maxBatchSize: number;
+    intensity: {
+      min: number;
+      max: number;
+      default: number;
+    };
+  };
+  image: {
+    cellSize: number;
+    maxCellSize: number;
+    maxCircleCellSize: number;
+    gap: number;
+    margin: number;
+    weekStart: number;
+    emptyColor: string;
+    background: string;
+  };
+  palettes: {
+    default: string;
+    presets: {
+      [key: string]: {
+        name: string;
+        description?: string;
+        emotions: PaletteEmotion[];
+      }
+    }
+  };
+  import: {
+    maxRows: number;
+    colors: string[];
+  };
+  google: {
+    jwksUri: string;
+    jwksCacheTtl: number;
+    issuers: string[];
+  };
   permissions: {
     roles: {
       [role: string]: {
@@ -1,6 +1,8 @@
 import { Application } from 'express';
 import AuthenticationController from '../controllers/authentication-controller';
 import Controller from '../controllers/controller';
+import PaletteController from '../controllers/palette-controller';
+import RoleController from '../controllers/role-controller';
 import SelfController from '../controllers/self-controller';
 import UserController from '../controllers/user-controller';
 import Service from './service';
@@ -27,7 +29,9 @@ export default class ControllerService extends Service {
     this.controllers = [
       new AuthenticationController(container),
       new UserController(container),
-      new SelfController(container)
+      new SelfController(container),
+      new RoleController(container),
+      new PaletteController(container)
     ];
   }
 
@@ -42,7 +46,8 @@ export default class ControllerService extends Service {
       this.logger.info(`Registered controller ${controller.constructor.name} - "${controller.rootUri}"`);
       controller.endpoints.forEach(endpoint => {
         const description = (endpoint.description !== undefined) ? ` (${endpoint.description})` : '';
-        this.logger.info(`    - ${endpoint.method} "${controller.rootUri}${endpoint.uri}"${description}`);
+        const permissions = (endpoint.permissions !== undefined) ? ` [${endpoint.permissions.join(', ')}]` : '';
+        this.logger.info(`    - ${endpoint.method} "${controller.rootUri}${endpoint.uri}"${description}${permissions}`);
       });
     });
   }
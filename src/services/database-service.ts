@@ -1,5 +1,13 @@
-import { Mongoose } from 'mongoose';
+import { ClientSession, Mongoose } from 'mongoose';
+import createCustomRoleModel, { CustomRoleModel } from '../models/custom-role-model';
+import createDayModel, { DayModel } from '../models/day-model';
+import createEmotionCategoryModel, { EmotionCategoryModel } from '../models/emotion-category-model';
 import createEmotionModel, { EmotionModel } from '../models/emotion-model';
+import createMigrationModel, { MigrationModel } from '../models/migration-model';
+import createPaletteModel, { PaletteModel } from '../models/palette-model';
+import createPersonalAccessTokenModel, { PersonalAccessTokenModel } from '../models/personal-access-token-model';
+import createRefreshTokenModel, { RefreshTokenModel } from '../models/refresh-token-model';
+import createSessionModel, { SessionModel } from '../models/session-model';
 import createUserModel, { UserModel } from '../models/user-model';
 import Service from './service';
 import ServiceContainer from './service-container';
@@ -13,6 +21,14 @@ export default class DatabaseService extends Service {
 
   public readonly users: UserModel;
   public readonly emotions: EmotionModel;
+  public readonly refreshTokens: RefreshTokenModel;
+  public readonly sessions: SessionModel;
+  public readonly personalAccessTokens: PersonalAccessTokenModel;
+  public readonly roles: CustomRoleModel;
+  public readonly days: DayModel;
+  public readonly migrations: MigrationModel;
+  public readonly emotionCategories: EmotionCategoryModel;
+  public readonly palettes: PaletteModel;
   private readonly mongoose: Mongoose;
 
   /**
@@ -25,6 +41,14 @@ export default class DatabaseService extends Service {
     this.mongoose = this.createMongoose();
     this.users = createUserModel(container, this.mongoose);
     this.emotions = createEmotionModel(container, this.mongoose);
+    this.refreshTokens = createRefreshTokenModel(container, this.mongoose);
+    this.sessions = createSessionModel(container, this.mongoose);
+    this.personalAccessTokens = createPersonalAccessTokenModel(container, this.mongoose);
+    this.roles = createCustomRoleModel(container, this.mongoose);
+    this.days = createDayModel(container, this.mongoose);
+    this.migrations = createMigrationModel(container, this.mongoose);
+    this.emotionCategories = createEmotionCategoryModel(container, this.mongoose);
+    this.palettes = createPaletteModel(container, this.mongoose);
   }
 
   /**
@@ -46,6 +70,29 @@ export default class DatabaseService extends Service {
     await this.mongoose.disconnect();
   }
 
+  /**
+   * Runs a function in a transaction.
+   * 
+   * The transaction is committed when the function resolves, and aborted when it rejects. The session must be given to every query
+   * of the function. Transactions require the database to be a replica set.
+   * 
+   * @param fn Function to run
+   * @returns Result of the function
+   * @async
+   */
+  public async transaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+    const session = await this.mongoose.startSession();
+    try {
+      let result: T;
+      await session.withTransaction(async () => {
+        result = await fn(session);
+      });
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
   /**
    * Creates Mongoose instance.
    * 
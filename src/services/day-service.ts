@@ -0,0 +1,401 @@
+import moment from 'moment';
+import { ClientSession, Error as MongooseError } from 'mongoose';
+import { Day, DayDocument, DayEmotionInput } from '../models/day-model';
+import { APIError } from './error-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Day service class.
+ * 
+ * This service is used to manage days of users. Day dates are `YYYY-M-D` strings, so they are also stored as numeric keys
+ * (`YYYYMMDD`) to be filtered and sorted in database.
+ * 
+ * "Today" depends on the timezone of the user, so users ahead of the server can log their day.
+ */
+export default class DayService extends Service {
+
+  public static readonly DATE_FORMAT = 'YYYY-M-D';
+
+  /**
+   * Creates a new day service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Parses a date range from query parameters.
+   * 
+   * Query parameters :
+   * - `from` and `to` : inclusive date range (`YYYY-M-D`)
+   * - `year` and `month` : restrict days to a year, or to a month of a year (month starts at 1). `month` requires `year`
+   * 
+   * @param query Query parameters
+   * @returns Date range (unbounded dates are `null`), or `null` if a parameter is invalid
+   */
+  public parseDateRange(query: { [key: string]: unknown }): DateRange {
+    let from = query.from != null ? this.getDateKey(query.from as string) : null;
+    let to = query.to != null ? this.getDateKey(query.to as string) : null;
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return null;
+    }
+    if (query.year != null || query.month != null) {
+      const year = Number(query.year);
+      const month = query.month != null ? Number(query.month) : null;
+      if (!Number.isInteger(year) || year < 1000 || year > 9999 || (month != null && (!Number.isInteger(month) || month < 1 || month > 12))) {
+        return null;
+      }
+      from = Math.max(from ?? 0, year * 10000 + (month ?? 1) * 100 + 1);
+      to = Math.min(to ?? Infinity, year * 10000 + (month ?? 12) * 100 + 31);
+    }
+    return { from, to };
+  }
+
+  /**
+   * Parses list options from query parameters.
+   * 
+   * Query parameters :
+   * - `from`, `to`, `year` and `month` : date range, see `parseDateRange()`
+   * - `order` : `asc` (default) or `desc`, days are sorted by date
+   * - `limit` : page size
+   * - `cursor` : cursor returned by the previous page
+   * 
+   * @param query Query parameters
+   * @returns List options, or `null` if an option is invalid
+   */
+  public parseListOptions(query: { [key: string]: unknown }): DayListOptions {
+    const { pageSize, maxPageSize } = this.container.config.services.days;
+    const order = (query.order ?? 'asc') as DayListOrder;
+    const limit = query.limit != null ? Number(query.limit) : pageSize;
+    if (!['asc', 'desc'].includes(order) || !Number.isInteger(limit) || limit < 1 || limit > maxPageSize) {
+      return null;
+    }
+    const range = this.parseDateRange(query);
+    if (range == null) {
+      return null;
+    }
+    let after: number = null;
+    if (query.cursor != null) {
+      after = Number(Buffer.from(query.cursor as string, 'base64').toString());
+      if (!Number.isInteger(after)) {
+        return null;
+      }
+    }
+    return { ...range, order, limit, after };
+  }
+
+  /**
+   * Gets list options to get all days of a year, in a single page.
+   * 
+   * @param year Year
+   * @returns List options
+   */
+  public getYearListOptions(year: number): DayListOptions {
+    return { from: year * 10000 + 101, to: year * 10000 + 1231, order: 'asc', limit: 366, after: null };
+  }
+
+  /**
+   * Lists days of an user.
+   * 
+   * Deleted days are excluded, and emotions of days are populated.
+   * 
+   * @param userId User ID
+   * @param options List options
+   * @returns Page of days
+   * @async
+   */
+  public async listDays(userId: string, options: DayListOptions): Promise<DayPage> {
+    const { from, to, order, limit, after } = options;
+    const query = this.db.days.find().where('owner').equals(userId).where('deleted').equals(false);
+    if (from != null) {
+      query.where('dateKey').gte(from);
+    }
+    if (to != null) {
+      query.where('dateKey').lte(to);
+    }
+    if (after != null) {
+      query.where('dateKey')[order === 'asc' ? 'gt' : 'lt'](after);
+    }
+    const results = await query.select('-owner +dateKey').sort({ dateKey: order === 'asc' ? 1 : -1 }).limit(limit + 1).populate('emotions.emotion', '-owner -deleted');
+    const hasMore = results.length > limit;
+    const days = results.slice(0, limit);
+    const next = hasMore ? Buffer.from(days[days.length - 1].dateKey.toString()).toString('base64') : null;
+    days.forEach(day => day.dateKey = undefined);
+    return { days, paging: { order, limit, count: days.length, hasMore, next } };
+  }
+
+  /**
+   * Finds a day of an user.
+   * 
+   * Days are found by date key, so the date can be given with or without leading zeros.
+   * 
+   * @param userId User ID
+   * @param date Day date
+   * @returns Day, or `null` if the day does not exist, is deleted or the date is invalid
+   * @async
+   */
+  public async findDay(userId: string, date: string): Promise<DayDocument> {
+    const dateKey = this.getDateKey(date);
+    return Number.isNaN(dateKey) ? null : await this.db.days.findOne().where('owner').equals(userId).where('dateKey').equals(dateKey).where('deleted').equals(false);
+  }
+
+  /**
+   * Creates a new day for an user.
+   * 
+   * If a deleted day exists at the same date, it is restored with the new attributes, so the sync sees the day as updated.
+   * 
+   * @param userId User ID
+   * @param attributes Day attributes
+   * @param options Write options
+   * @returns Created day
+   * @async
+   */
+  public async createDay(userId: string, attributes: DayAttributes, options: DayWriteOptions = {}): Promise<DayDocument> {
+    const { date, description, emotions } = attributes;
+    const { session, timezone } = options;
+    const dateKey = this.getDateKey(date);
+    const deletedDay = Number.isNaN(dateKey) ? null : await this.db.days.findOne().where('owner').equals(userId).where('dateKey').equals(dateKey).where('deleted').equals(true)
+      .session(session);
+    const day = deletedDay ?? new this.db.days({ owner: userId, date });
+    day.deleted = false;
+    day.description = description ?? null;
+    day.emotions = emotions;
+    if (timezone !== undefined) {
+      day.$locals.timezone = timezone;
+    }
+    return await day.save({ session });
+  }
+
+  /**
+   * Creates or replaces days of an user, by date.
+   * 
+   * Every day is validated first (with the day schema rules, a date can't be given twice). In all-or-nothing mode, nothing is saved
+   * if a day is invalid (valid days are `skipped`), and days are saved in a transaction. In partial mode, valid days are saved and invalid
+   * days are reported. Save errors (example : a day created concurrently) are reported on the day which failed.
+   * 
+   * Replaced days get the new description and emotions, deleted days are restored.
+   * 
+   * @param userId User ID
+   * @param days Days attributes
+   * @param partial Partial mode
+   * @returns Result of each day, in the same order
+   * @async
+   */
+  public async upsertDays(userId: string, days: DayAttributes[], partial = false): Promise<DayUpsertResult[]> {
+    const dateKeys = days.map(day => this.getDateKey(day.date));
+    const existingDays = await this.db.days.find().where('owner').equals(userId).where('dateKey').in(dateKeys.filter(dateKey => !Number.isNaN(dateKey)))
+      .select('+deleted +dateKey');
+    const timezone = await this.getTimezone(userId);
+    const results: DayUpsertResult[] = [];
+    for (const [index, { date, description, emotions }] of days.entries()) {
+      if (!Number.isNaN(dateKeys[index]) && dateKeys.indexOf(dateKeys[index]) < index) {
+        results.push({ date, status: 'invalid', errors: [{ error: 'validation_failed', error_description: 'Day is duplicated' }] });
+        continue;
+      }
+      const existingDay = existingDays.find(day => day.dateKey === dateKeys[index]);
+      const day = existingDay ?? new this.db.days({ owner: userId, date });
+      day.deleted = false;
+      day.description = description ?? null;
+      day.emotions = emotions ?? [];
+      day.$locals.timezone = timezone;
+      const errors = await this.getSaveErrors(() => day.validate());
+      results.push(errors.length > 0
+        ? { date, status: 'invalid', errors }
+        : { date, status: existingDay != null && !existingDay.deleted ? 'updated' : 'created', day });
+    }
+    const validResults = results.filter(result => result.status !== 'invalid');
+    if (partial) {
+      for (const result of validResults) {
+        const errors = await this.getSaveErrors(() => result.day.save());
+        if (errors.length > 0) {
+          Object.assign(result, { status: 'invalid', errors, day: undefined });
+        }
+      }
+    } else if (validResults.length < results.length) {
+      validResults.forEach(result => Object.assign(result, { status: 'skipped', day: undefined }));
+    } else {
+      let failedResult: DayUpsertResult = null;
+      try {
+        await this.db.transaction(async session => {
+          for (const result of results) {
+            failedResult = result;
+            await result.day.save({ session });
+          }
+          failedResult = null;
+        });
+      } catch (err) {
+        if (failedResult == null) {
+          throw err;
+        }
+        results.forEach(result => Object.assign(result, result === failedResult
+          ? { status: 'invalid', errors: this.translateSaveError(err), day: undefined }
+          : { status: 'skipped', day: undefined }));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Gets the numeric key of a date.
+   * 
+   * @param date Date (`YYYY-M-D`)
+   * @returns Date key (`YYYYMMDD`), or `NaN` if the date is invalid
+   */
+  public getDateKey(date: string): number {
+    const realDate = moment(date, DayService.DATE_FORMAT, true);
+    return realDate.isValid() ? Number(realDate.format('YYYYMMDD')) : NaN;
+  }
+
+  /**
+   * Gets today's date in a timezone.
+   * 
+   * @param timezone IANA timezone (example : `Pacific/Auckland`), the server timezone if `null`
+   * @returns Today's date (`YYYY-M-D`)
+   */
+  public getToday(timezone: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone ?? undefined, year: 'numeric', month: 'numeric', day: 'numeric' })
+      .formatToParts(new Date());
+    const getPart = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type).value;
+    return `${getPart('year')}-${getPart('month')}-${getPart('day')}`;
+  }
+
+  /**
+   * Gets the timezone of an user.
+   * 
+   * @param userId User ID
+   * @returns IANA timezone, or `null` if the user has no timezone (the server timezone is used)
+   * @async
+   */
+  public async getTimezone(userId: string): Promise<string> {
+    return (await this.db.users.findById(userId).select('profile.timezone'))?.profile?.timezone ?? null;
+  }
+
+  /**
+   * Checks if a timezone is a valid IANA timezone.
+   * 
+   * @param timezone Timezone
+   * @returns `true` if the timezone is valid
+   */
+  public isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  /**
+   * Translates an error of a day validation or save to API errors.
+   * 
+   * A duplicate key error means the day was created concurrently. Other errors are logged and reported as server errors.
+   * 
+   * @param err Error
+   * @returns API errors
+   */
+  public translateSaveError(err: unknown): APIError[] {
+    if (err instanceof MongooseError.ValidationError) {
+      return this.container.errors.translateMongooseValidationError(err);
+    }
+    if ((err as { code?: number }).code === 11000) {
+      return [{ error: 'validation_failed', error_description: 'Day already exists' }];
+    }
+    this.logger.error(err);
+    return [{ error: 'server_error', error_description: 'Internal server error' }];
+  }
+
+  /**
+   * Runs a validation or a save, and catches errors.
+   * 
+   * @param fn Function validating or saving
+   * @returns Errors
+   * @async
+   */
+  private async getSaveErrors(fn: () => Promise<unknown>): Promise<APIError[]> {
+    try {
+      await fn();
+      return [];
+    } catch (err) {
+      return this.translateSaveError(err);
+    }
+  }
+
+}
+
+/**
+ * Attributes of a created or replaced day.
+ */
+export type DayAttributes = Pick<Day, 'date' | 'description'> & { emotions: DayEmotionInput[] };
+
+/**
+ * Options of a day write.
+ * 
+ * The timezone of the owner can be given when it is already known, so it is not loaded again (`null` for the server timezone).
+ */
+export interface DayWriteOptions {
+  session?: ClientSession;
+  timezone?: string;
+}
+
+/**
+ * Days sort order.
+ */
+export type DayListOrder = 'asc' | 'desc';
+
+/**
+ * Date range.
+ * 
+ * Dates are numeric date keys (`YYYYMMDD`), both inclusive.
+ */
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Days list options.
+ * 
+ * Dates are numeric date keys (`YYYYMMDD`).
+ */
+export interface DayListOptions extends DateRange {
+  order: DayListOrder;
+  limit: number;
+
+  /**
+   * Date key of the last day of the previous page.
+   */
+  after: number;
+}
+
+/**
+ * Result of a day upsert.
+ * 
+ * Days are `skipped` when another day is invalid in all-or-nothing mode.
+ */
+export interface DayUpsertResult {
+  date: string;
+  status: 'created' | 'updated' | 'invalid' | 'skipped';
+  errors?: APIError[];
+
+  /**
+   * Saved day.
+   */
+  day?: DayDocument;
+}
+
+/**
+ * Page of days.
+ */
+export interface DayPage {
+  days: Day[];
+  paging: {
+    order: DayListOrder;
+    limit: number;
+    count: number;
+    hasMore: boolean;
+    next: string;
+  };
+}
@@ -0,0 +1,164 @@
+import _ from 'lodash';
+import { Types } from 'mongoose';
+import { DayDocument } from '../models/day-model';
+import { EmotionCategoryDocument } from '../models/emotion-category-model';
+import { EmotionDocument } from '../models/emotion-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Emotion service class.
+ * 
+ * This service is used to manage emotions and emotion categories of users.
+ */
+export default class EmotionService extends Service {
+
+  public static readonly ROLLUPS: EmotionRollup[] = ['category', 'root'];
+  public static readonly NAME_MAX_LENGTH = 16;
+
+  /**
+   * Creates a new emotion service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Merges an emotion into another one.
+   * 
+   * Every day referencing the source emotion now references the target emotion. When a day had both emotions, they are merged
+   * into a single day emotion, keeping the highest intensity and the lowest order. The source emotion is then soft-deleted.
+   * 
+   * Everything runs in a transaction, so nothing is changed if a day can't be saved.
+   * 
+   * @param source Source emotion
+   * @param target Target emotion (same owner)
+   * @returns Changed days
+   * @async
+   */
+  public async mergeEmotions(source: EmotionDocument, target: EmotionDocument): Promise<DayDocument[]> {
+    return await this.db.transaction(async session => {
+      const days = await this.db.days.find({ 'emotions.emotion': source._id }).where('owner').equals(source.owner._id).where('deleted').equals(false).session(session);
+      for (const day of days) {
+        const emotions = day.emotions.map(({ emotion, intensity, order }) => ({ emotion: emotion._id.equals(source._id) ? target._id : emotion._id, intensity, order }));
+        day.emotions = Object.values(_.groupBy(emotions, emotion => emotion.emotion.toString())).map(group => ({
+          emotion: group[0].emotion,
+          intensity: _.max(group.map(emotion => emotion.intensity)),
+          order: _.min(group.map(emotion => emotion.order))
+        }));
+        await day.save({ session });
+      }
+      source.deleted = true;
+      await source.save({ session });
+      return days;
+    });
+  }
+
+  /**
+   * Reorders emotions of an user.
+   * 
+   * Given emotions are moved to the first positions, in the given order. Other emotions are moved after them, keeping their order.
+   * 
+   * @param userId User ID
+   * @param emotionIds Emotion IDs in the new order
+   * @returns Emotions whose position changed, or `null` if an emotion is not found or is duplicated
+   * @async
+   */
+  public async reorderEmotions(userId: string, emotionIds: string[]): Promise<EmotionDocument[]> {
+    const emotions = await this.db.emotions.find().where('owner').equals(userId).where('deleted').equals(false).sort({ position: 1, createdAt: 1 });
+    if (_.uniq(emotionIds).length !== emotionIds.length || emotionIds.some(id => !emotions.some(emotion => emotion.id === id))) {
+      return null;
+    }
+    const changedEmotions = _.sortBy(emotions, emotion => emotionIds.includes(emotion.id) ? emotionIds.indexOf(emotion.id) : emotionIds.length)
+      .filter((emotion, position) => {
+        const changed = emotion.position !== position;
+        emotion.position = position;
+        return changed;
+      });
+    if (changedEmotions.length > 0) {
+      await this.db.emotions.bulkWrite(changedEmotions.map(({ _id, position }) => ({ updateOne: { filter: { _id }, update: { position } } })));
+    }
+    return changedEmotions;
+  }
+
+  /**
+   * Gets an available emotion name.
+   * 
+   * If the name is already used, a numeric suffix is added, and the name is truncated to respect the maximum length.
+   * 
+   * @param name Emotion name
+   * @param names Used names
+   * @returns Available name
+   */
+  public getAvailableName(name: string, names: Set<string>): string {
+    let availableName = name;
+    for (let i = 2; names.has(availableName); i++) {
+      const suffix = ` ${i}`;
+      availableName = `${name.slice(0, EmotionService.NAME_MAX_LENGTH - suffix.length).trimEnd()}${suffix}`;
+    }
+    return availableName;
+  }
+
+  /**
+   * Deletes an emotion category.
+   * 
+   * The category is soft-deleted. Its emotions and sub-categories are moved to its parent category, or become uncategorized if the category
+   * has no parent.
+   * 
+   * @param category Category to delete
+   * @async
+   */
+  public async deleteCategory(category: EmotionCategoryDocument): Promise<void> {
+    const parent = category.parent?._id ?? null;
+    await this.db.emotions.updateMany({ category: category._id }, { category: parent });
+    await this.db.emotionCategories.updateMany({ parent: category._id }, { parent });
+    category.deleted = true;
+    await category.save();
+  }
+
+  /**
+   * Gets the roll-up groups of emotions of an user.
+   * 
+   * Roll-ups :
+   * - `category` : emotions are grouped by category
+   * - `root` : emotions are grouped by top-level category
+   * 
+   * Uncategorized emotions are not returned, they are not grouped.
+   * 
+   * @param userId User ID
+   * @param rollup Roll-up
+   * @returns Groups of emotions
+   * @async
+   */
+  public async getRollupGroups(userId: string, rollup: EmotionRollup): Promise<EmotionGroup[]> {
+    const categories = await this.db.emotionCategories.find().where('owner').equals(userId).select('parent');
+    const parents = new Map(categories.map(category => [category.id, category.parent?._id.toString()]));
+    const emotions = await this.db.emotions.find().where('owner').equals(userId).where('category').ne(null).select('category');
+    return emotions.map(emotion => {
+      let group = emotion.category._id.toString();
+      if (rollup === 'root') {
+        const path = [group];
+        while (parents.get(group) != null && !path.includes(parents.get(group))) {
+          group = parents.get(group);
+          path.push(group);
+        }
+      }
+      return { emotion: emotion._id, group: new Types.ObjectId(group) };
+    });
+  }
+}
+
+/**
+ * Emotion roll-up.
+ */
+export type EmotionRollup = 'category' | 'root';
+
+/**
+ * Group of an emotion.
+ */
+export interface EmotionGroup {
+  emotion: Types.ObjectId;
+  group: Types.ObjectId;
+}
@@ -0,0 +1,251 @@
+import moment from 'moment';
+import { Writable } from 'stream';
+import { DayDocument } from '../models/day-model';
+import { EmotionDocument } from '../models/emotion-model';
+import DayService from './day-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Export service class.
+ * 
+ * This service is used to export data of users. Days are streamed from a database cursor, so large exports are not built in memory.
+ * 
+ * Formats :
+ * - `json` : emotions and days, can be imported with the `json` import format
+ * - `csv` : days with emotion names, can be imported with the `csv` import format
+ * - `ics` : days as all-day iCalendar events, to be displayed in calendar applications (it can't be imported)
+ */
+export default class ExportService extends Service {
+
+  public static readonly FORMATS: ExportFormat[] = ['json', 'csv', 'ics'];
+  public static readonly CONTENT_TYPES: { [format in ExportFormat]: string } = {
+    json: 'application/json',
+    csv: 'text/csv',
+    ics: 'text/calendar'
+  };
+
+  /**
+   * Creates a new export service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Exports data of an user to a stream.
+   * 
+   * Exported emotions are non-deleted emotions and deleted emotions still referenced by days. Deleted days are not exported.
+   * The stream is not ended. If the stream is closed before the end (example : the client aborted the download), the export is stopped
+   * and an error is thrown.
+   * 
+   * @param userId User ID
+   * @param format Export format
+   * @param stream Output stream
+   * @async
+   */
+  public async exportData(userId: string, format: ExportFormat, stream: Writable): Promise<void> {
+    const emotions = await this.getEmotions(userId);
+    const days = this.db.days.find().where('owner').equals(userId).where('deleted').equals(false).sort({ dateKey: 1 }).cursor();
+    try {
+      await this.exportDays(format, emotions, days, stream);
+    } finally {
+      await days.close();
+    }
+  }
+
+  /**
+   * Writes exported emotions and days to a stream.
+   * 
+   * @param format Export format
+   * @param emotions Exported emotions
+   * @param days Days cursor
+   * @param stream Output stream
+   * @async
+   */
+  private async exportDays(format: ExportFormat, emotions: EmotionDocument[], days: AsyncIterable<DayDocument>, stream: Writable): Promise<void> {
+    switch (format) {
+      case 'json': {
+        await this.write(stream, `{"emotions":${JSON.stringify(emotions.map(emotion => this.formatEmotion(emotion)))},"days":[`);
+        let separator = '';
+        for await (const day of days) {
+          await this.write(stream, `${separator}${JSON.stringify(this.formatDay(day))}`);
+          separator = ',';
+        }
+        await this.write(stream, ']}');
+        break;
+      }
+      case 'csv':
+        await this.write(stream, 'date,emotions,intensities,description\r\n');
+        for await (const day of days) {
+          await this.write(stream, `${this.formatCsvLine(day, emotions)}\r\n`);
+        }
+        break;
+      case 'ics':
+        await this.write(stream, this.formatIcsLines(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//DrawTheYear//Export//EN', 'CALSCALE:GREGORIAN']));
+        for await (const day of days) {
+          await this.write(stream, this.formatIcsLines(this.getIcsEvent(day, emotions)));
+        }
+        await this.write(stream, this.formatIcsLines(['END:VCALENDAR']));
+        break;
+    }
+  }
+
+  /**
+   * Gets exported emotions of an user.
+   * 
+   * Imports resolve emotions by name, so a deleted emotion with the same name as another exported emotion is renamed with a numeric suffix
+   * (only in the export, it is not saved).
+   * 
+   * @param userId User ID
+   * @returns Non-deleted emotions, and deleted emotions referenced by non-deleted days
+   * @async
+   */
+  private async getEmotions(userId: string): Promise<EmotionDocument[]> {
+    const referencedEmotionIds = await this.db.days.distinct('emotions.emotion').where('owner').equals(userId).where('deleted').equals(false);
+    const emotions = await this.db.emotions.find().where('owner').equals(userId).or([{ deleted: false }, { _id: { $in: referencedEmotionIds } }])
+      .select('+deleted').sort({ position: 1, createdAt: 1 });
+    const names = new Set(emotions.filter(emotion => !emotion.deleted).map(emotion => emotion.name));
+    for (const emotion of emotions.filter(emotion => emotion.deleted)) {
+      emotion.name = this.container.emotions.getAvailableName(emotion.name, names);
+      names.add(emotion.name);
+    }
+    return emotions;
+  }
+
+  /**
+   * Formats an emotion for the JSON export.
+   * 
+   * @param emotion Emotion
+   * @returns Formatted emotion
+   */
+  private formatEmotion(emotion: EmotionDocument): Record<string, unknown> {
+    const { name, color, valence, energy, icon, position, archived, deleted } = emotion;
+    return { id: emotion.id, name, color, valence, energy, icon, position, archived, deleted };
+  }
+
+  /**
+   * Formats a day for the JSON export.
+   * 
+   * @param day Day
+   * @returns Formatted day
+   */
+  private formatDay(day: DayDocument): Record<string, unknown> {
+    return {
+      date: day.date,
+      description: day.description,
+      emotions: day.emotions.map(({ emotion, intensity, order }) => ({ emotion: emotion._id.toString(), intensity, order }))
+    };
+  }
+
+  /**
+   * Formats a day as a CSV line.
+   * 
+   * @param day Day
+   * @param emotions Exported emotions
+   * @returns CSV line
+   */
+  private formatCsvLine(day: DayDocument, emotions: EmotionDocument[]): string {
+    const dayEmotions = day.emotions.filter(({ emotion }) => emotions.some(({ _id }) => _id.equals(emotion._id)));
+    return [
+      day.date,
+      dayEmotions.map(({ emotion }) => emotions.find(({ _id }) => _id.equals(emotion._id)).name).join('|'),
+      dayEmotions.map(({ intensity }) => intensity).join('|'),
+      day.description ?? ''
+    ].map(field => /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(',');
+  }
+
+  /**
+   * Gets iCalendar lines of a day event.
+   * 
+   * @param day Day
+   * @param emotions Exported emotions
+   * @returns iCalendar lines
+   */
+  private getIcsEvent(day: DayDocument, emotions: EmotionDocument[]): string[] {
+    const date = moment(day.date, DayService.DATE_FORMAT, true);
+    const names = day.emotions.map(({ emotion }) => emotions.find(({ _id }) => _id.equals(emotion._id))?.name).filter(name => name != null);
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${day.id}`,
+      `DTSTAMP:${moment(day.updatedAt).utc().format('YYYYMMDD[T]HHmmss[Z]')}`,
+      `DTSTART;VALUE=DATE:${date.format('YYYYMMDD')}`,
+      `DTEND;VALUE=DATE:${date.clone().add(1, 'day').format('YYYYMMDD')}`,
+      `SUMMARY:${this.escapeIcsText(names.join(', '))}`
+    ];
+    if (day.description) {
+      lines.push(`DESCRIPTION:${this.escapeIcsText(day.description)}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * Escapes an iCalendar text value.
+   * 
+   * @param text Text
+   * @returns Escaped text
+   */
+  private escapeIcsText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Formats iCalendar lines.
+   * 
+   * Lines longer than 75 octets are folded, and every line ends with CRLF.
+   * 
+   * @param lines iCalendar lines
+   * @returns Formatted lines
+   */
+  private formatIcsLines(lines: string[]): string {
+    return lines.map(line => {
+      const parts: string[] = [];
+      let part = '';
+      for (const char of line) {
+        if (Buffer.byteLength(part + char) > (parts.length === 0 ? 75 : 74)) {
+          parts.push(part);
+          part = '';
+        }
+        part += char;
+      }
+      parts.push(part);
+      return `${parts.join('\r\n ')}\r\n`;
+    }).join('');
+  }
+
+  /**
+   * Writes a chunk to a stream, waiting for the stream to drain if its buffer is full.
+   * 
+   * @param stream Stream
+   * @param chunk Chunk
+   * @throws Error if the stream is closed
+   * @async
+   */
+  private async write(stream: Writable, chunk: string): Promise<void> {
+    if (stream.destroyed) {
+      throw new Error('Export stream is closed');
+    }
+    if (!stream.write(chunk)) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+          stream.off('close', onClose);
+          resolve();
+        };
+        const onClose = () => {
+          stream.off('drain', onDrain);
+          reject(new Error('Export stream is closed'));
+        };
+        stream.once('drain', onDrain);
+        stream.once('close', onClose);
+      });
+    }
+  }
+}
+
+/**
+ * Export format.
+ */
+export type ExportFormat = 'json' | 'csv' | 'ics';
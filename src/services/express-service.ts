@@ -78,7 +78,9 @@ export default class ExpressService extends Service {
       extended: true,
       limit: this.container.config.services.express.requestSizeLimit
     }));
-    app.use(express.json());
+    app.use(express.json({
+      limit: this.container.config.services.express.requestSizeLimit
+    }));
     app.use(helmet());
     app.use(cors());
 
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import https from 'https';
+import jwt from 'jsonwebtoken';
+import Service from './service';
+import ServiceContainer from './service-container';
+import { TokenData } from './token-service';
+
+/**
+ * Google service class.
+ * 
+ * This service is used to verify Google identities with Google ID tokens.
+ */
+export default class GoogleService extends Service {
+
+  private static readonly JWKS_CACHE_KEY = 'google.jwks';
+
+  /**
+   * Creates a new Google service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Verifies a Google ID token.
+   * 
+   * The token signature is checked with the configured JWKS, and the issuer and expiration are also checked.
+   * The audience is not checked here, use `isClientAllowed(aud)` to check it.
+   * 
+   * @param idToken Google ID token
+   * @returns Google ID token data
+   * @async
+   */
+  public async verifyIdToken(idToken: string): Promise<GoogleIdTokenData> {
+    return await this.container.tokens.decode<GoogleIdTokenData>(idToken, this.getSigningKey.bind(this), {
+      algorithms: ['RS256'],
+      issuer: this.container.config.services.google.issuers
+    });
+  }
+
+  /**
+   * Checks if an audience matches with one of the configured Google client IDs.
+   * 
+   * Client IDs are defined in the `GOOGLE_CLIENT_IDS` environment variable (comma-separated).
+   * 
+   * @param aud Token audience
+   * @returns true if the audience is allowed, false otherwise
+   */
+  public isClientAllowed(aud: string | string[]): boolean {
+    const clientIds = process.env.GOOGLE_CLIENT_IDS?.split(',').map(clientId => clientId.trim()).filter(clientId => clientId.length > 0) || [];
+    return [aud].flat().some(audience => clientIds.includes(audience));
+  }
+
+  /**
+   * Gets the public key used to sign a token.
+   * 
+   * This method is a `jsonwebtoken` key provider.
+   * 
+   * @param header Token header
+   * @param callback Callback called with the PEM-encoded public key
+   */
+  private getSigningKey(header: jwt.JwtHeader, callback: jwt.SigningKeyCallback): void {
+    this.getKeys().then(keys => {
+      const key = keys.find(key => key.kid === header.kid);
+      if (key == null) {
+        return callback(new Error(`Unknown signing key "${header.kid}"`));
+      }
+      return callback(null, crypto.createPublicKey({ key, format: 'jwk' }).export({ type: 'spki', format: 'pem' }) as string);
+    }).catch(callback);
+  }
+
+  /**
+   * Gets the JWKS keys.
+   * 
+   * Keys are loaded from the configured JWKS URI, which can be an HTTPS URL or a local JSON file path, and then cached.
+   * 
+   * @returns JWKS keys
+   * @async
+   */
+  private async getKeys(): Promise<GoogleJsonWebKey[]> {
+    let jwks = this.container.cache.get<GoogleJsonWebKeySet>(GoogleService.JWKS_CACHE_KEY);
+    if (jwks == null) {
+      const { jwksUri, jwksCacheTtl } = this.container.config.services.google;
+      jwks = jwksUri.startsWith('https://')
+        ? await this.fetch<GoogleJsonWebKeySet>(jwksUri)
+        : await this.container.config.load<GoogleJsonWebKeySet>(jwksUri, 'JSON');
+      this.container.cache.set(GoogleService.JWKS_CACHE_KEY, jwks, jwksCacheTtl);
+    }
+    return jwks.keys;
+  }
+
+  /**
+   * Fetches a JSON resource.
+   * 
+   * @param url Resource URL
+   * @returns JSON resource
+   * @async
+   */
+  private async fetch<T>(url: string): Promise<T> {
+    return await new Promise<T>((resolve, reject) => {
+      https.get(url, res => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          return reject(new Error(`Could not fetch "${url}" : status ${res.statusCode}`));
+        }
+        let data = '';
+        res.setEncoding('utf-8');
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => {
+          try {
+            return resolve(JSON.parse(data));
+          } catch (err) {
+            return reject(err);
+          }
+        });
+      }).on('error', reject);
+    });
+  }
+}
+
+/**
+ * Google ID token data.
+ */
+export interface GoogleIdTokenData extends TokenData {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  locale?: string;
+}
+
+/**
+ * Google JSON web key.
+ */
+export interface GoogleJsonWebKey extends crypto.JsonWebKey {
+  kid: string;
+}
+
+/**
+ * Google JSON web key set.
+ */
+export interface GoogleJsonWebKeySet {
+  keys: GoogleJsonWebKey[];
+}
@@ -0,0 +1,372 @@
+import _ from 'lodash';
+import moment from 'moment';
+import zlib from 'zlib';
+import { Day } from '../models/day-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Image service class.
+ * 
+ * This service is used to draw the year of an user ("year in pixels"). The year is drawn as a list of colored polygons, which can then be
+ * exported to SVG or rasterized to PNG.
+ */
+export default class ImageService extends Service {
+
+  public static readonly LAYOUTS: YearImageLayout[] = ['grid', 'calendar', 'circle'];
+  public static readonly FORMATS: YearImageFormat[] = ['svg', 'png'];
+  private static readonly CRC_TABLE = ImageService.createCrcTable();
+
+  /**
+   * Creates a new image service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Draws a year.
+   * 
+   * Each day of the year is a cell colored with its emotions. When a day has several emotions, the cell is split in equal parts, in the order of
+   * day emotions.
+   * 
+   * @param year Year to draw
+   * @param days Days with populated emotions
+   * @param options Drawing options
+   * @returns Year image
+   */
+  public drawYear(year: number, days: Day[], options: YearImageOptions): YearImage {
+    const { emptyColor, background } = this.container.config.services.image;
+    const daysByDate = new Map(days.filter(day => !day.deleted).map(day => [moment(day.date, 'YYYY-M-D').format('YYYY-MM-DD'), day]));
+    const image: YearImage = { ...this.getSize(year, options), background, shapes: [] };
+    for (const date = moment({ year, month: 0, date: 1 }); date.year() === year; date.add(1, 'day')) {
+      const day = daysByDate.get(date.format('YYYY-MM-DD'));
+      const colors = day != null && day.emotions.length > 0 ? _.sortBy(day.emotions, 'order').map(({ emotion }) => this.parseColor(emotion.color) || emptyColor) : [emptyColor];
+      colors.forEach((color, index) => image.shapes.push({ color, points: this.getCellPart(date, options, index, colors.length) }));
+    }
+    return image;
+  }
+
+  /**
+   * Parses drawing options from query parameters.
+   * 
+   * Missing options are set to the given defaults (usually from the user's profile and settings), then to their configured default value.
+   * The circle layout is much larger than other layouts for the same cell size, so its cell size has a lower maximum.
+   * 
+   * @param query Query parameters (`layout`, `cellSize` and `weekStart`)
+   * @param defaults Default options
+   * @returns Drawing options, or `null` if an option is invalid
+   */
+  public parseOptions(query: { [key: string]: unknown }, defaults: Partial<YearImageOptions> = {}): YearImageOptions {
+    const config = this.container.config.services.image;
+    const layout = (query.layout ?? defaults.layout ?? 'grid') as YearImageLayout;
+    const cellSize = query.cellSize != null ? Number(query.cellSize) : defaults.cellSize ?? config.cellSize;
+    const weekStart = query.weekStart != null ? Number(query.weekStart) : defaults.weekStart ?? config.weekStart;
+    if (!ImageService.LAYOUTS.includes(layout)
+      || !Number.isInteger(cellSize) || cellSize < 1 || cellSize > (layout === 'circle' ? config.maxCircleCellSize : config.maxCellSize)
+      || !Number.isInteger(weekStart) || weekStart < 1 || weekStart > 7) {
+      return null;
+    }
+    return { layout, cellSize, weekStart };
+  }
+
+  /**
+   * Exports an image to SVG.
+   * 
+   * @param image Image to export
+   * @returns SVG document
+   */
+  public toSvg(image: YearImage): string {
+    const polygons = image.shapes.map(shape => `<polygon points="${shape.points.map(([x, y]) => `${+x.toFixed(2)},${+y.toFixed(2)}`).join(' ')}" fill="${shape.color}"/>`);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${image.width}" height="${image.height}" viewBox="0 0 ${image.width} ${image.height}">`
+      + `<rect width="${image.width}" height="${image.height}" fill="${image.background}"/>${polygons.join('')}</svg>`;
+  }
+
+  /**
+   * Rasterizes an image to PNG.
+   * 
+   * Polygons are filled with a scanline algorithm, without anti-aliasing.
+   * 
+   * @param image Image to rasterize
+   * @returns PNG file
+   */
+  public toPng(image: YearImage): Buffer {
+    const { width, height } = image;
+    const pixels = Buffer.alloc(width * height * 3);
+    const [br, bg, bb] = this.toRgb(image.background);
+    for (let i = 0; i < width * height; i++) {
+      pixels[i * 3] = br;
+      pixels[i * 3 + 1] = bg;
+      pixels[i * 3 + 2] = bb;
+    }
+    image.shapes.forEach(shape => this.fillPolygon(pixels, width, height, shape.points, this.toRgb(shape.color)));
+    return this.encodePng(width, height, pixels);
+  }
+
+  /**
+   * Gets the image size.
+   * 
+   * @param year Year to draw
+   * @param options Drawing options
+   * @returns Image size
+   */
+  private getSize(year: number, options: YearImageOptions): { width: number, height: number } {
+    const { cellSize } = options;
+    const { gap, margin } = this.container.config.services.image;
+    switch (options.layout) {
+      default:
+      case 'grid':
+        return { width: 2 * margin + 12 * (cellSize + gap) - gap, height: 2 * margin + 31 * (cellSize + gap) - gap };
+      case 'calendar': {
+        const weeks = this.getWeek(moment({ year, month: 11, date: 31 }), options.weekStart) + 1;
+        return { width: 2 * margin + weeks * (cellSize + gap) - gap, height: 2 * margin + 7 * (cellSize + gap) - gap };
+      }
+      case 'circle': {
+        const size = 2 * margin + 2 * this.getCircleRadius(cellSize);
+        return { width: size, height: size };
+      }
+    }
+  }
+
+  /**
+   * Gets the polygon of a part of a day cell.
+   * 
+   * Rectangular cells are split vertically, and circle cells are split radially.
+   * 
+   * @param date Day date
+   * @param options Drawing options
+   * @param index Part index
+   * @param count Parts count
+   * @returns Polygon points
+   */
+  private getCellPart(date: moment.Moment, options: YearImageOptions, index: number, count: number): Point[] {
+    const { cellSize } = options;
+    const { gap, margin } = this.container.config.services.image;
+    if (options.layout === 'circle') {
+      const radius = this.getCircleRadius(cellSize);
+      const innerRadius = radius * 0.35;
+      const center = margin + radius;
+      const daysInYear = date.isLeapYear() ? 366 : 365;
+      const start = 2 * Math.PI * (date.dayOfYear() - 1) / daysInYear - Math.PI / 2;
+      const end = 2 * Math.PI * date.dayOfYear() / daysInYear - Math.PI / 2;
+      const r0 = innerRadius + (radius - innerRadius) * index / count;
+      const r1 = innerRadius + (radius - innerRadius) * (index + 1) / count;
+      const steps = Math.max(2, Math.ceil((end - start) / (Math.PI / 90)));
+      const arc = (r: number) => Array.from({ length: steps + 1 }, (v, i) => start + (end - start) * i / steps).map(angle => [center + r * Math.cos(angle), center + r * Math.sin(angle)] as Point);
+      return [...arc(r1), ...arc(r0).reverse()];
+    }
+    const [column, row] = options.layout === 'calendar' ? [this.getWeek(date, options.weekStart), (date.isoWeekday() + 7 - options.weekStart) % 7] : [date.month(), date.date() - 1];
+    const x = margin + column * (cellSize + gap) + cellSize * index / count;
+    const y = margin + row * (cellSize + gap);
+    const width = cellSize / count;
+    return [[x, y], [x + width, y], [x + width, y + cellSize], [x, y + cellSize]];
+  }
+
+  /**
+   * Gets the week index of a date in its year, for the calendar layout.
+   * 
+   * @param date Date
+   * @param weekStart First day of the week (ISO day of the week, 1 is monday)
+   * @returns Week index (starts at 0)
+   */
+  private getWeek(date: moment.Moment, weekStart: number): number {
+    const firstDay = moment({ year: date.year(), month: 0, date: 1 });
+    const offset = (firstDay.isoWeekday() + 7 - weekStart) % 7;
+    return Math.floor((date.dayOfYear() - 1 + offset) / 7);
+  }
+
+  /**
+   * Gets the outer radius of the circle layout.
+   * 
+   * @param cellSize Cell size
+   * @returns Circle radius
+   */
+  private getCircleRadius(cellSize: number): number {
+    return cellSize * 20;
+  }
+
+  /**
+   * Parses a color to the `#rrggbb` format.
+   * 
+   * @param color Color (`#rgb` or `#rrggbb`)
+   * @returns Parsed color, or `null` if the color is invalid
+   */
+  private parseColor(color: string): string {
+    const hex = /#([a-f0-9]{3}){1,2}\b/i.exec(color || '')?.[0].substring(1).toLowerCase();
+    if (hex == null) {
+      return null;
+    }
+    return `#${hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex}`;
+  }
+
+  /**
+   * Converts a `#rrggbb` color to RGB components.
+   * 
+   * @param color Color
+   * @returns RGB components
+   */
+  private toRgb(color: string): [number, number, number] {
+    const value = parseInt(color.substring(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  }
+
+  /**
+   * Fills a polygon in a RGB pixels buffer.
+   * 
+   * Pixels are filled when their center is inside the polygon (even-odd rule).
+   * 
+   * @param pixels RGB pixels buffer
+   * @param width Image width
+   * @param height Image height
+   * @param points Polygon points
+   * @param rgb Fill color
+   */
+  private fillPolygon(pixels: Buffer, width: number, height: number, points: Point[], rgb: [number, number, number]): void {
+    const minY = Math.max(0, Math.floor(Math.min(...points.map(([, y]) => y))));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(...points.map(([, y]) => y))));
+    for (let py = minY; py <= maxY; py++) {
+      const y = py + 0.5;
+      const intersections: number[] = [];
+      points.forEach(([x0, y0], i) => {
+        const [x1, y1] = points[(i + 1) % points.length];
+        if ((y0 <= y && y1 > y) || (y1 <= y && y0 > y)) {
+          intersections.push(x0 + (y - y0) * (x1 - x0) / (y1 - y0));
+        }
+      });
+      intersections.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < intersections.length; i += 2) {
+        const start = Math.max(0, Math.ceil(intersections[i] - 0.5));
+        const end = Math.min(width - 1, Math.ceil(intersections[i + 1] - 0.5) - 1);
+        for (let px = start; px <= end; px++) {
+          const offset = (py * width + px) * 3;
+          pixels[offset] = rgb[0];
+          pixels[offset + 1] = rgb[1];
+          pixels[offset + 2] = rgb[2];
+        }
+      }
+    }
+  }
+
+  /**
+   * Encodes RGB pixels to PNG.
+   * 
+   * @param width Image width
+   * @param height Image height
+   * @param pixels RGB pixels buffer
+   * @returns PNG file
+   */
+  private encodePng(width: number, height: number, pixels: Buffer): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.writeUInt8(8, 8); // Bit depth
+    header.writeUInt8(2, 9); // Color type (RGB)
+    const scanlines = Buffer.alloc(height * (width * 3 + 1));
+    for (let y = 0; y < height; y++) {
+      pixels.copy(scanlines, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+    }
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      this.createPngChunk('IHDR', header),
+      this.createPngChunk('IDAT', zlib.deflateSync(scanlines)),
+      this.createPngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  /**
+   * Creates a PNG chunk.
+   * 
+   * @param type Chunk type
+   * @param data Chunk data
+   * @returns PNG chunk
+   */
+  private createPngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const content = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(this.crc32(content));
+    return Buffer.concat([length, content, crc]);
+  }
+
+  /**
+   * Computes the CRC32 of a buffer.
+   * 
+   * @param data Buffer
+   * @returns CRC32
+   */
+  private crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = ImageService.CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  /**
+   * Creates the CRC32 table.
+   * 
+   * @returns CRC32 table
+   */
+  private static createCrcTable(): number[] {
+    return Array.from({ length: 256 }, (v, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+  }
+}
+
+/**
+ * Year image layout.
+ * 
+ * - `grid` : 12 columns (months) and 31 rows (days)
+ * - `calendar` : one column per week and 7 rows (week days)
+ * - `circle` : days around a circle, starting at the top
+ */
+export type YearImageLayout = 'grid' | 'calendar' | 'circle';
+
+/**
+ * Year image format.
+ */
+export type YearImageFormat = 'svg' | 'png';
+
+/**
+ * Year image options.
+ */
+export interface YearImageOptions {
+  layout: YearImageLayout;
+  cellSize: number;
+
+  /**
+   * First day of the week for the calendar layout (ISO day of the week, 1 is monday).
+   */
+  weekStart: number;
+}
+
+/**
+ * Point.
+ */
+export type Point = [number, number];
+
+/**
+ * Image shape.
+ */
+export interface Shape {
+  color: string;
+  points: Point[];
+}
+
+/**
+ * Year image.
+ */
+export interface YearImage {
+  width: number;
+  height: number;
+  background: string;
+  shapes: Shape[];
+}
@@ -0,0 +1,513 @@
+import _ from 'lodash';
+import moment from 'moment';
+import { Emotion, EmotionDocument } from '../models/emotion-model';
+import DayService from './day-service';
+import { APIError } from './error-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Import service class.
+ * 
+ * This service is used to import days from files, exported from this API or from other mood trackers. Source moods (emotion names) are mapped
+ * to existing emotions, or to new emotions created by the import.
+ * 
+ * Formats :
+ * - `csv` : CSV with `date`, `emotions` and optional `intensities` and `description` columns (emotions and intensities are separated by `|`)
+ * - `json` : JSON export of this API (`emotions` and `days`)
+ * - `daylio` : Daylio CSV export, the mood of each entry is imported, entries of the same day are merged
+ * - `pixels` : Year in Pixels JSON export, the score is imported as a mood (see `PIXELS_MOODS`) along with emotion tags
+ */
+export default class ImportService extends Service {
+
+  public static readonly FORMATS: ImportFormat[] = ['csv', 'json', 'daylio', 'pixels'];
+  public static readonly PIXELS_MOODS = ['Awful', 'Bad', 'Okay', 'Good', 'Amazing'];
+
+  /**
+   * Creates a new import service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Detects the format of a file.
+   * 
+   * @param content File content
+   * @returns Format, or `null` if the format is unknown
+   */
+  public detectFormat(content: string): ImportFormat {
+    const trimmedContent = content.trim();
+    if (trimmedContent.startsWith('{') || trimmedContent.startsWith('[')) {
+      try {
+        const data = JSON.parse(trimmedContent);
+        if (Array.isArray(data)) {
+          return 'pixels';
+        }
+        return Array.isArray(data?.days) ? 'json' : null;
+      } catch (err) {
+        return null;
+      }
+    }
+    const header = (this.parseCsv(trimmedContent)[0] ?? []).map(column => column.trim().toLowerCase());
+    if (header.includes('full_date') && header.includes('mood')) {
+      return 'daylio';
+    }
+    if (header.includes('date') && header.includes('emotions')) {
+      return 'csv';
+    }
+    return null;
+  }
+
+  /**
+   * Parses a file.
+   * 
+   * Rows with invalid values are kept with their errors, so they are reported.
+   * 
+   * @param format File format
+   * @param content File content
+   * @returns Parsed file, or `null` if the file can't be parsed
+   */
+  public parse(format: ImportFormat, content: string): ImportSource {
+    try {
+      switch (format) {
+        case 'csv':
+          return this.parseCsvFile(content);
+        case 'json':
+          return this.parseJsonFile(content);
+        case 'daylio':
+          return this.parseDaylioFile(content);
+        case 'pixels':
+          return this.parsePixelsFile(content);
+        default:
+          return null;
+      }
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * Imports days of a parsed file for an user.
+   * 
+   * Source moods are mapped to emotions with the given mapping (source mood name to emotion ID), then to existing emotions with the same name
+   * (case insensitive). Remaining moods become new emotions. Every day is validated against the day schema, and existing days are not replaced.
+   * 
+   * In dry-run mode, nothing is saved. Otherwise, valid days are saved with their new emotions in a transaction, and days that can't be saved
+   * are reported as invalid (their new emotions are not saved). Created emotions and days are emitted to websockets.
+   * 
+   * @param userId User ID
+   * @param source Parsed file
+   * @param options Import options
+   * @returns Import report
+   * @async
+   */
+  public async importDays(userId: string, source: ImportSource, options: ImportOptions): Promise<ImportReport> {
+    const emotions = await this.resolveEmotions(userId, source, options.mapping ?? {});
+    const existingDateKeys = new Set((await this.db.days.find().where('owner').equals(userId).where('deleted').equals(false).select('+dateKey'))
+      .map(day => day.dateKey));
+    const timezone = await this.container.days.getTimezone(userId);
+    const todayKey = this.container.days.getDateKey(this.container.days.getToday(timezone));
+    const importedDateKeys = new Set<number>();
+    const rows: ImportRowReport[] = [];
+    for (const row of source.rows) {
+      const errors = row.errors.map(error => this.formatError(error));
+      const date = this.normalizeDate(row.date);
+      const dateKey = this.container.days.getDateKey(date);
+      if (dateKey > todayKey) {
+        errors.push(this.formatError('Invalid day date'));
+      } else if (existingDateKeys.has(dateKey)) {
+        errors.push(this.formatError('Day already exists'));
+      } else if (importedDateKeys.has(dateKey)) {
+        errors.push(this.formatError('Day is duplicated'));
+      }
+      importedDateKeys.add(dateKey);
+      const dayEmotions = _.uniqBy(row.emotions.map(({ name, intensity }) => ({ emotion: emotions.get(name), intensity })), ({ emotion }) => emotion.emotion._id.toString());
+      dayEmotions.forEach(({ emotion }) => errors.push(...emotion.errors));
+      const attributes = {
+        date,
+        description: row.description || null,
+        emotions: dayEmotions.map(({ emotion, intensity }) => ({ emotion: emotion.emotion._id, intensity }))
+      };
+      const validationError = new this.db.days({ owner: userId, ...attributes }).validateSync();
+      if (validationError != null) {
+        errors.push(...this.container.errors.translateMongooseValidationError(validationError));
+      }
+      if (errors.length > 0) {
+        rows.push({ row: row.row, date: row.date, status: 'invalid', errors: _.uniqWith(errors, _.isEqual) });
+        continue;
+      }
+      if (options.dryRun) {
+        rows.push({ row: row.row, date, status: 'valid' });
+        continue;
+      }
+      const newEmotions = dayEmotions.map(({ emotion }) => emotion).filter(emotion => emotion.status === 'new');
+      try {
+        const day = await this.db.transaction(async session => {
+          for (const { emotion } of newEmotions) {
+            await emotion.save({ session });
+          }
+          return await this.container.days.createDay(userId, attributes, { session, timezone });
+        });
+        newEmotions.forEach(emotion => {
+          emotion.status = 'created';
+          this.container.websocket.emitSync(userId, 'emotion:created', emotion.emotion);
+        });
+        this.container.websocket.emitSync(userId, 'day:created', day);
+        rows.push({ row: row.row, date, status: 'created' });
+      } catch (err) {
+        newEmotions.forEach(({ emotion }) => emotion.isNew = true);
+        rows.push({ row: row.row, date, status: 'invalid', errors: this.container.days.translateSaveError(err) });
+      }
+    }
+    return {
+      dryRun: options.dryRun,
+      total: rows.length,
+      valid: rows.filter(row => row.status !== 'invalid').length,
+      invalid: rows.filter(row => row.status === 'invalid').length,
+      emotions: Array.from(emotions.entries()).map(([source, { emotion, status }]) => ({
+        source,
+        id: ['matched', 'created'].includes(status) ? emotion.id : null,
+        name: emotion.name,
+        status
+      })),
+      rows
+    };
+  }
+
+  /**
+   * Resolves source moods to emotions.
+   * 
+   * New emotions are not saved, they are validated and saved with the first day using them.
+   * 
+   * @param userId User ID
+   * @param source Parsed file
+   * @param mapping Mapping of source moods to emotion IDs
+   * @returns Emotions by source mood
+   * @async
+   */
+  private async resolveEmotions(userId: string, source: ImportSource, mapping: { [source: string]: string }): Promise<Map<string, ResolvedEmotion>> {
+    const userEmotions = await this.db.emotions.find().where('owner').equals(userId).where('deleted').equals(false);
+    const { colors } = this.container.config.services.import;
+    const resolvedEmotions = new Map<string, ResolvedEmotion>();
+    const newEmotions = new Map<string, ResolvedEmotion>();
+    for (const name of _.uniq(source.rows.flatMap(row => row.emotions.map(emotion => emotion.name)))) {
+      const mappedId = _.has(mapping, name) ? mapping[name] : null;
+      const mappedEmotion = mappedId != null ? userEmotions.find(emotion => emotion.id === mappedId) : null;
+      if (mappedId != null && mappedEmotion == null) {
+        resolvedEmotions.set(name, { emotion: new this.db.emotions({ owner: userId, name }), status: 'invalid', errors: [this.formatError(`Mapped emotion of "${name}" not found`)] });
+        continue;
+      }
+      const emotion = mappedEmotion ?? userEmotions.find(emotion => emotion.name.toLowerCase() === name.toLowerCase());
+      if (emotion != null) {
+        resolvedEmotions.set(name, { emotion, status: 'matched', errors: [] });
+        continue;
+      }
+      if (!newEmotions.has(name.toLowerCase())) {
+        const attributes = source.emotions.get(name) ?? {};
+        const newEmotion = new this.db.emotions({ owner: userId, color: colors[newEmotions.size % colors.length], ...attributes, name });
+        const validationError = newEmotion.validateSync();
+        const errors = validationError != null ? this.container.errors.translateMongooseValidationError(validationError) : [];
+        newEmotions.set(name.toLowerCase(), { emotion: newEmotion, status: errors.length > 0 ? 'invalid' : 'new', errors });
+      }
+      resolvedEmotions.set(name, newEmotions.get(name.toLowerCase()));
+    }
+    return resolvedEmotions;
+  }
+
+  /**
+   * Parses a CSV file of this API.
+   * 
+   * @param content File content
+   * @returns Parsed file
+   */
+  private parseCsvFile(content: string): ImportSource {
+    const [header, ...lines] = this.parseCsv(content);
+    const columns = header.map(column => column.trim().toLowerCase());
+    const rows = lines.map((line, index) => {
+      const values = _.zipObject(columns, line);
+      const names = (values.emotions ?? '').split('|').map(name => name.trim()).filter(name => name !== '');
+      const intensities = (values.intensities ?? '').split('|').map(intensity => intensity.trim());
+      return {
+        row: index + 2,
+        date: values.date?.trim() ?? '',
+        description: values.description ?? null,
+        emotions: names.map((name, i) => ({ name, intensity: intensities[i] ? Number(intensities[i]) : undefined })),
+        errors: []
+      };
+    });
+    return { rows, emotions: new Map() };
+  }
+
+  /**
+   * Parses a JSON file of this API.
+   * 
+   * Emotions of days are referenced by ID, they are converted to names with the `emotions` list of the file.
+   * 
+   * @param content File content
+   * @returns Parsed file
+   */
+  private parseJsonFile(content: string): ImportSource {
+    const data: JSONImportFile = JSON.parse(content);
+    const emotions = new Map((data.emotions ?? []).map(({ id, name, color, valence, energy, icon }) => [id, { name, color, valence, energy, icon }]));
+    const rows = data.days.map((day, index) => {
+      const dayEmotions = _.sortBy(day.emotions ?? [], 'order').map(({ emotion, intensity }) => ({ name: emotions.get(emotion)?.name, intensity }));
+      const errors: string[] = [];
+      if (dayEmotions.some(emotion => emotion.name == null)) {
+        errors.push('Day emotion(s) not found');
+      }
+      if (dayEmotions.some(emotion => emotion.name != null && !this.isValidName(emotion.name))) {
+        errors.push('Invalid emotion name');
+      }
+      return {
+        row: index + 1,
+        date: day.date ?? '',
+        description: day.description ?? null,
+        emotions: dayEmotions.filter(emotion => this.isValidName(emotion.name)),
+        errors
+      };
+    });
+    const validEmotions = Array.from(emotions.values()).filter(emotion => this.isValidName(emotion.name));
+    return { rows, emotions: new Map(validEmotions.map(emotion => [emotion.name, _.omitBy(emotion, _.isNil)])) };
+  }
+
+  /**
+   * Parses a Daylio CSV export.
+   * 
+   * Daylio can have several entries per day, they are merged : moods are combined and notes are concatenated.
+   * 
+   * @param content File content
+   * @returns Parsed file
+   */
+  private parseDaylioFile(content: string): ImportSource {
+    const [header, ...lines] = this.parseCsv(content);
+    const columns = header.map(column => column.trim().toLowerCase());
+    const rows = new Map<string, ImportRow>();
+    lines.forEach((line, index) => {
+      const values = _.zipObject(columns, line);
+      const date = values.full_date?.trim() ?? '';
+      const note = [values.note_title, values.note].filter(text => text != null && text.trim() !== '').join('\n');
+      const row = rows.get(date) ?? { row: index + 2, date, description: '', emotions: [], errors: [] };
+      row.description = [row.description, note].filter(text => text !== '').join('\n\n');
+      if (values.mood?.trim()) {
+        row.emotions.push({ name: values.mood.trim() });
+      }
+      rows.set(date, row);
+    });
+    return { rows: Array.from(rows.values()), emotions: new Map() };
+  }
+
+  /**
+   * Parses a Year in Pixels JSON export.
+   * 
+   * @param content File content
+   * @returns Parsed file
+   */
+  private parsePixelsFile(content: string): ImportSource {
+    const pixels: PixelsImportEntry[] = JSON.parse(content);
+    const rows = pixels.map((pixel, index) => {
+      const errors: string[] = [];
+      const moods = (pixel.scores ?? []).map(score => {
+        if (ImportService.PIXELS_MOODS[score - 1] == null) {
+          errors.push(`Invalid score ${score}`);
+        }
+        return ImportService.PIXELS_MOODS[score - 1];
+      }).filter(mood => mood != null);
+      const tags = (pixel.tags ?? []).filter(tag => tag.type?.toLowerCase() === 'emotions').flatMap(tag => tag.entries ?? []);
+      if (tags.some(tag => !this.isValidName(tag))) {
+        errors.push('Invalid emotion name');
+      }
+      return {
+        row: index + 1,
+        date: pixel.date ?? '',
+        description: pixel.notes ?? null,
+        emotions: [...moods, ...tags.filter(tag => this.isValidName(tag))].map(name => ({ name })),
+        errors
+      };
+    });
+    return { rows, emotions: new Map() };
+  }
+
+  /**
+   * Parses CSV content (RFC 4180).
+   * 
+   * Fields can be quoted, quotes are escaped by doubling them. Empty lines and the byte order mark are ignored.
+   * 
+   * @param content CSV content
+   * @returns Lines of fields
+   */
+  private parseCsv(content: string): string[][] {
+    const lines: string[][] = [];
+    const text = content.replace(/^\uFEFF/, '');
+    let line: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        line.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        line.push(field);
+        lines.push(line);
+        line = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    line.push(field);
+    lines.push(line);
+    return lines.filter(line => line.length > 1 || line[0].trim() !== '');
+  }
+
+  /**
+   * Normalizes a date to the day date format.
+   * 
+   * @param date Date (`YYYY-M-D`, with or without leading zeros)
+   * @returns Normalized date, or the same date if it is invalid so it is reported by validation
+   */
+  private normalizeDate(date: string): string {
+    const realDate = moment(date, DayService.DATE_FORMAT, true);
+    return realDate.isValid() ? realDate.format(DayService.DATE_FORMAT) : date;
+  }
+
+  /**
+   * Checks if a source mood name is valid.
+   * 
+   * Names of JSON files are not type-checked, so they may not be strings.
+   * 
+   * @param name Source mood name
+   * @returns `true` if the name is a non-empty string
+   */
+  private isValidName(name: unknown): name is string {
+    return typeof name === 'string' && name.trim() !== '';
+  }
+
+  /**
+   * Formats an import error.
+   * 
+   * @param message Error message
+   * @returns API error
+   */
+  private formatError(message: string): APIError {
+    return { error: 'validation_failed', error_description: message };
+  }
+}
+
+/**
+ * Import format.
+ */
+export type ImportFormat = 'csv' | 'json' | 'daylio' | 'pixels';
+
+/**
+ * Import options.
+ */
+export interface ImportOptions {
+  dryRun: boolean;
+
+  /**
+   * Mapping of source moods to emotion IDs.
+   */
+  mapping?: { [source: string]: string };
+}
+
+/**
+ * Parsed file.
+ * 
+ * Emotion attributes (color, valence...) can be given by the file, they are used to create new emotions.
+ */
+export interface ImportSource {
+  rows: ImportRow[];
+  emotions: Map<string, Partial<Pick<Emotion, 'color' | 'valence' | 'energy' | 'icon'>>>;
+}
+
+/**
+ * Parsed row.
+ * 
+ * The row number is the record number for CSV files (the header is the first record), and the position in the array (starting at 1)
+ * for JSON files.
+ */
+export interface ImportRow {
+  row: number;
+  date: string;
+  description: string;
+  emotions: { name: string, intensity?: number }[];
+  errors: string[];
+}
+
+/**
+ * Import report.
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  emotions: { source: string, id: string, name: string, status: ResolvedEmotionStatus }[];
+  rows: ImportRowReport[];
+}
+
+/**
+ * Import report of a row.
+ */
+export interface ImportRowReport {
+  row: number;
+  date: string;
+  status: 'valid' | 'created' | 'invalid';
+  errors?: APIError[];
+}
+
+/**
+ * Resolved emotion status.
+ * 
+ * `new` emotions are created with the first day using them, then their status is `created`.
+ */
+type ResolvedEmotionStatus = 'matched' | 'new' | 'created' | 'invalid';
+
+/**
+ * Source mood resolved to an emotion.
+ */
+interface ResolvedEmotion {
+  emotion: EmotionDocument;
+  status: ResolvedEmotionStatus;
+  errors: APIError[];
+}
+
+/**
+ * JSON file of this API.
+ */
+interface JSONImportFile {
+  emotions?: (Pick<Emotion, 'name' | 'color' | 'valence' | 'energy' | 'icon'> & { id: string })[];
+  days: {
+    date: string;
+    description?: string;
+    emotions?: { emotion: string, intensity?: number, order?: number }[];
+  }[];
+}
+
+/**
+ * Year in Pixels export entry.
+ */
+interface PixelsImportEntry {
+  date: string;
+  scores?: number[];
+  notes?: string;
+  tags?: { type: string, entries: string[] }[];
+}
@@ -0,0 +1,47 @@
+import DayEmotionsIntensityMigration from '../migrations/day-emotions-intensity-migration';
+import DaysCollectionMigration from '../migrations/days-collection-migration';
+import EmotionsPositionMigration from '../migrations/emotions-position-migration';
+import Migration from '../migrations/migration';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Migration service class.
+ * 
+ * This service is used to execute database migrations. Migrations must be registered in this service, in execution order.
+ */
+export default class MigrationService extends Service {
+
+  private readonly migrations: Migration[];
+
+  /**
+   * Creates a new migration service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+    this.migrations = [
+      new DaysCollectionMigration(container),
+      new DayEmotionsIntensityMigration(container),
+      new EmotionsPositionMigration(container)
+    ];
+  }
+
+  /**
+   * Executes pending migrations.
+   * 
+   * Executed migrations are stored in database. If a migration fails, next migrations are not executed.
+   * 
+   * @async
+   */
+  public async run(): Promise<void> {
+    const executedMigrations = (await this.db.migrations.find()).map(migration => migration.name);
+    for (const migration of this.migrations.filter(migration => !executedMigrations.includes(migration.name))) {
+      this.logger.info(`Executing migration "${migration.name}"`);
+      await migration.up();
+      await this.db.migrations.create({ name: migration.name });
+      this.logger.info(`Migration "${migration.name}" executed`);
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { isValidObjectId } from 'mongoose';
+import { EmotionDocument } from '../models/emotion-model';
+import { PaletteDocument, PaletteEmotion } from '../models/palette-model';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Palette service class.
+ * 
+ * This service is used to manage palettes. Palettes are either presets defined in the configuration (identified by their key), or palettes
+ * published by users (identified by their ID).
+ */
+export default class PaletteService extends Service {
+
+  public static readonly CONFLICTS: PaletteConflict[] = ['skip', 'rename'];
+
+  /**
+   * Creates a new palette service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Gets preset palettes.
+   * 
+   * @returns Preset palettes
+   */
+  public getPresets(): PresetPalette[] {
+    const { presets } = this.container.config.services.palettes;
+    return Object.keys(presets).map(id => ({ id, ...presets[id], preset: true }));
+  }
+
+  /**
+   * Gets published palettes, newest first.
+   * 
+   * @returns Published palettes
+   * @async
+   */
+  public async getPublishedPalettes(): Promise<PublishedPalette[]> {
+    const palettes = await this.db.palettes.find().where('deleted').equals(false).populate('owner', 'profile settings').sort({ createdAt: -1 });
+    return palettes.map(palette => this.formatPalette(palette));
+  }
+
+  /**
+   * Finds a palette.
+   * 
+   * @param id Preset key or published palette ID
+   * @returns Preset or published palette, or `null` if the palette does not exist or is deleted
+   * @async
+   */
+  public async findPalette(id: string): Promise<PresetPalette | PublishedPalette> {
+    const preset = this.getPresets().find(preset => preset.id === id);
+    if (preset != null) {
+      return preset;
+    }
+    const palette = isValidObjectId(id) ? await this.db.palettes.findById(id).where('deleted').equals(false).populate('owner', 'profile settings') : null;
+    return palette != null ? this.formatPalette(palette) : null;
+  }
+
+  /**
+   * Publishes a palette from emotions of an user.
+   * 
+   * @param userId User ID
+   * @param attributes Palette name and description
+   * @param emotionIds IDs of emotions to publish, all non-deleted emotions if not specified
+   * @returns Published palette, or `null` if an emotion ID is invalid or the emotion is not found
+   * @async
+   */
+  public async publishPalette(userId: string, attributes: { name: string, description?: string }, emotionIds?: string[]): Promise<PaletteDocument> {
+    const query = this.db.emotions.find().where('owner').equals(userId).where('deleted').equals(false);
+    if (emotionIds != null) {
+      if (!Array.isArray(emotionIds) || emotionIds.some(id => typeof id !== 'string' || !isValidObjectId(id))) {
+        return null;
+      }
+      query.where('_id').in(emotionIds);
+    }
+    const emotions = await query;
+    if (emotionIds != null && emotions.length !== new Set(emotionIds).size) {
+      return null;
+    }
+    return await this.db.palettes.create({
+      owner: userId,
+      name: attributes.name,
+      description: attributes.description,
+      emotions: emotions.map(({ name, color, valence, energy }) => ({ name, color, valence, energy }))
+    });
+  }
+
+  /**
+   * Applies a palette to an user, by creating emotions of the palette.
+   * 
+   * Emotion names are unique per user, so clashes are resolved with the conflict strategy :
+   * - `skip` : the emotion is not created, the existing emotion is kept
+   * - `rename` : the emotion is created with a numeric suffix (example : `Tired 2`)
+   * 
+   * @param userId User ID
+   * @param emotions Emotions of the palette
+   * @param conflict Conflict strategy
+   * @returns Created emotions
+   * @async
+   */
+  public async applyPalette(userId: string, emotions: PaletteEmotion[], conflict: PaletteConflict = 'skip'): Promise<EmotionDocument[]> {
+    const names = new Set((await this.db.emotions.find().where('owner').equals(userId).where('deleted').equals(false).select('name')).map(emotion => emotion.name));
+    const createdEmotions: EmotionDocument[] = [];
+    for (const { name, color, valence, energy } of emotions) {
+      if (names.has(name) && conflict === 'skip') {
+        continue;
+      }
+      const availableName = this.container.emotions.getAvailableName(name, names);
+      createdEmotions.push(await this.db.emotions.create({ owner: userId, name: availableName, color, valence, energy }));
+      names.add(availableName);
+    }
+    return createdEmotions;
+  }
+
+  /**
+   * Applies the default preset palette to a new user.
+   * 
+   * Nothing is done if there is no default palette.
+   * 
+   * @param userId User ID
+   * @returns Created emotions
+   * @async
+   */
+  public async applyDefaultPalette(userId: string): Promise<EmotionDocument[]> {
+    const preset = this.getPresets().find(preset => preset.id === this.container.config.services.palettes.default);
+    return preset != null ? await this.applyPalette(userId, preset.emotions) : [];
+  }
+
+  /**
+   * Formats a published palette.
+   * 
+   * The owner is never returned. The author (display name and avatar of the owner) is only returned if the owner has a public profile.
+   * 
+   * @param palette Palette with populated owner
+   * @returns Formatted palette
+   */
+  private formatPalette(palette: PaletteDocument): PublishedPalette {
+    const { owner } = palette;
+    return {
+      id: palette.id,
+      name: palette.name,
+      description: palette.description,
+      emotions: palette.emotions.map(({ name, color, valence, energy }) => ({ name, color, valence, energy })),
+      author: owner?.settings?.privacy?.publicProfile ? { displayName: owner.profile.displayName, avatarUrl: owner.profile.avatarUrl } : null,
+      createdAt: palette.createdAt,
+      updatedAt: palette.updatedAt
+    };
+  }
+}
+
+/**
+ * Palette name conflict strategy.
+ */
+export type PaletteConflict = 'skip' | 'rename';
+
+/**
+ * Preset palette.
+ */
+export interface PresetPalette {
+  id: string;
+  name: string;
+  description?: string;
+  emotions: PaletteEmotion[];
+  preset: true;
+}
+
+/**
+ * Published palette.
+ */
+export interface PublishedPalette {
+  id: string;
+  name: string;
+  description: string;
+  emotions: PaletteEmotion[];
+  author: { displayName: string, avatarUrl: string };
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,3 +1,4 @@
+import _ from 'lodash';
 import Service from './service';
 import ServiceContainer from './service-container';
 
@@ -5,9 +6,19 @@ import ServiceContainer from './service-container';
  * Permissions service class.
  * 
  * This service is used to manages roles and permissions.
+ * 
+ * Roles are defined in the services configuration, and custom roles can be stored in database. When a custom role has the same name as a configured role,
+ * both are merged.
  */
 export default class PermissionService extends Service {
 
+  public static readonly PERMISSIONS: Permission[] = [
+    'own.read', 'own.write', 'own.emotion.read', 'own.emotion.write',
+    'user.read', 'user.write', 'user.role.write', 'user.emotion.read', 'user.emotion.write',
+    'role.read', 'role.write'
+  ];
+  private static readonly ROLES_CACHE_KEY = 'permissions.roles';
+
   public readonly defaultRole: Role;
 
   /**
@@ -21,24 +32,129 @@ export default class PermissionService extends Service {
     this.defaultRole = Object.keys(roles).find(role => roles[role].default) as Role;
   }
 
+  /**
+   * Gets all roles.
+   * 
+   * Configured roles and custom roles are merged, then cached until `clearRoles()` is called.
+   * 
+   * @returns Roles definitions
+   * @async
+   */
+  public async getRoles(): Promise<RoleDefinitions> {
+    let roles = this.container.cache.get<RoleDefinitions>(PermissionService.ROLES_CACHE_KEY);
+    if (roles == null) {
+      roles = {};
+      const configuredRoles = this.container.config.services.permissions.roles;
+      for (const role of Object.keys(configuredRoles)) {
+        roles[role] = {
+          default: configuredRoles[role].default,
+          extends: [...configuredRoles[role].extends || []],
+          permissions: [...configuredRoles[role].permissions] as Permission[]
+        };
+      }
+      for (const customRole of await this.db.roles.find()) {
+        roles[customRole.name] = {
+          default: roles[customRole.name]?.default,
+          extends: _.union(roles[customRole.name]?.extends, customRole.extends),
+          permissions: _.union(roles[customRole.name]?.permissions, customRole.permissions),
+          custom: true
+        };
+      }
+      this.container.cache.set(PermissionService.ROLES_CACHE_KEY, roles);
+    }
+    return _.cloneDeep(roles);
+  }
+
+  /**
+   * Clears the cached roles.
+   * 
+   * This method must be called when a custom role is modified.
+   */
+  public clearRoles(): void {
+    this.container.cache.del(PermissionService.ROLES_CACHE_KEY);
+  }
+
+  /**
+   * Checks if a role exists.
+   * 
+   * @param role Role
+   * @returns true if the role exists, false otherwise
+   * @async
+   */
+  public async roleExists(role: Role): Promise<boolean> {
+    return (await this.getRoles())[role] != null;
+  }
+
   /**
    * Get role permissions.
    * 
+   * Permissions of extended roles are included.
+   * 
    * @param role Role
    * @returns Role permissions
+   * @async
    */
-  public getPermissions(role: Role): Permission[] {
-    const roleConfig = this.container.config.services.permissions.roles[role];
-    const perms = roleConfig.permissions as Permission[];
-    (roleConfig.extends as Role[])?.forEach(extend => perms.push(...this.getPermissions(extend)));
-    return perms;
+  public async getPermissions(role: Role): Promise<Permission[]> {
+    return this.resolvePermissions(await this.getRoles(), role);
+  }
+
+  /**
+   * Resolves role permissions from roles definitions.
+   * 
+   * An error is thrown if the role or an extended role does not exist, or if an inheritance cycle is detected.
+   * 
+   * @param roles Roles definitions
+   * @param role Role
+   * @param path Inheritance path, used to detect cycles
+   * @returns Role permissions
+   */
+  public resolvePermissions(roles: RoleDefinitions, role: Role, path: Role[] = []): Permission[] {
+    if (path.includes(role)) {
+      throw new Error(`Role inheritance cycle detected : ${[...path, role].join(' > ')}`);
+    }
+    const definition = roles[role];
+    if (definition == null) {
+      throw new Error(`Role "${role}" not found`);
+    }
+    return _.union(definition.permissions, ...definition.extends.map(extend => this.resolvePermissions(roles, extend, [...path, role])));
+  }
+
+  /**
+   * Checks if a value is a known permission.
+   * 
+   * Known permissions are all permissions of the API, even if no configured role uses them.
+   * 
+   * @param value Value to check
+   * @returns true if the value is a known permission, false otherwise
+   */
+  public isPermission(value: string): value is Permission {
+    return PermissionService.PERMISSIONS.includes(value as Permission);
   }
 }
 
 /**
  * Role.
+ * 
+ * Roles are defined in configuration or in database.
+ */
+export type Role = string;
+
+/**
+ * Role definition.
  */
-export type Role = 'user' | 'admin';
+export interface RoleDefinition {
+  default?: boolean;
+  extends: Role[];
+  permissions: Permission[];
+  custom?: boolean;
+}
+
+/**
+ * Roles definitions, by role name.
+ */
+export interface RoleDefinitions {
+  [role: string]: RoleDefinition;
+}
 
 /**
  * Permission.
@@ -50,5 +166,8 @@ export type Permission
   | 'own.emotion.write'
   | 'user.read'
   | 'user.write'
+  | 'user.role.write'
   | 'user.emotion.read'
-  | 'user.emotion.write';
+  | 'user.emotion.write'
+  | 'role.read'
+  | 'role.write';
@@ -38,6 +38,9 @@ export default class ServerService extends Service {
     // Connecting to database
     await this.container.db.connect(DB_URL);
     this.logger.info(`Connected to database "${DB_URL}"`);
+
+    // Executing migrations
+    await this.container.migrations.run();
   }
 
   /**
@@ -4,13 +4,23 @@ import ConfigurationService from './configuration-service';
 import ControllerService from './controller-service';
 import CryptoService from './crypto-service';
 import DatabaseService from './database-service';
+import DayService from './day-service';
+import EmotionService from './emotion-service';
 import EnvironmentService from './environment-service';
 import ErrorService from './error-service';
+import ExportService from './export-service';
 import ExpressService from './express-service';
+import GoogleService from './google-service';
+import ImageService from './image-service';
+import ImportService from './import-service';
 import LogService from './log-service';
+import MigrationService from './migration-service';
+import PaletteService from './palette-service';
 import PermissionService from './permission-service';
 import SchedulerService from './scheduler-service';
 import ServerService from './server-service';
+import StatsService from './stats-service';
+import SyncService from './sync-service';
 import TokenService from './token-service';
 import WebsocketService from './websocket-service';
 
@@ -53,6 +63,16 @@ export default class ServiceContainer {
   private _scheduler: SchedulerService;
   private _websocket: WebsocketService;
   private _permissions: PermissionService;
+  private _google: GoogleService;
+  private _sync: SyncService;
+  private _image: ImageService;
+  private _days: DayService;
+  private _migrations: MigrationService;
+  private _stats: StatsService;
+  private _emotions: EmotionService;
+  private _palettes: PaletteService;
+  private _imports: ImportService;
+  private _exports: ExportService;
 
   /**
    * Creates a new services container.
@@ -73,6 +93,16 @@ export default class ServiceContainer {
     this._scheduler = null;
     this._websocket = null;
     this._permissions = null;
+    this._google = null;
+    this._sync = null;
+    this._image = null;
+    this._days = null;
+    this._migrations = null;
+    this._stats = null;
+    this._emotions = null;
+    this._palettes = null;
+    this._imports = null;
+    this._exports = null;
     this.env.load(); // Autoload environment
   }
 
@@ -195,4 +225,84 @@ export default class ServiceContainer {
     }
     return this._permissions;
   }
+
+  public get google(): GoogleService {
+    if (!this._google) {
+      this._google = new GoogleService(this);
+      this.logger.info('Loaded Google service');
+    }
+    return this._google;
+  }
+
+  public get sync(): SyncService {
+    if (!this._sync) {
+      this._sync = new SyncService(this);
+      this.logger.info('Loaded sync service');
+    }
+    return this._sync;
+  }
+
+  public get image(): ImageService {
+    if (!this._image) {
+      this._image = new ImageService(this);
+      this.logger.info('Loaded image service');
+    }
+    return this._image;
+  }
+
+  public get days(): DayService {
+    if (!this._days) {
+      this._days = new DayService(this);
+      this.logger.info('Loaded day service');
+    }
+    return this._days;
+  }
+
+  public get migrations(): MigrationService {
+    if (!this._migrations) {
+      this._migrations = new MigrationService(this);
+      this.logger.info('Loaded migration service');
+    }
+    return this._migrations;
+  }
+
+  public get stats(): StatsService {
+    if (!this._stats) {
+      this._stats = new StatsService(this);
+      this.logger.info('Loaded stats service');
+    }
+    return this._stats;
+  }
+
+  public get emotions(): EmotionService {
+    if (!this._emotions) {
+      this._emotions = new EmotionService(this);
+      this.logger.info('Loaded emotion service');
+    }
+    return this._emotions;
+  }
+
+  public get palettes(): PaletteService {
+    if (!this._palettes) {
+      this._palettes = new PaletteService(this);
+      this.logger.info('Loaded palette service');
+    }
+    return this._palettes;
+  }
+
+  public get imports(): ImportService {
+    if (!this._imports) {
+      this._imports = new ImportService(this);
+      this.logger.info('Loaded import service');
+    }
+    return this._imports;
+  }
+
+  public get exports(): ExportService {
+    if (!this._exports) {
+      this._exports = new ExportService(this);
+      this.logger.info('Loaded export service');
+    }
+    return this._exports;
+  }
 }
@@ -0,0 +1,575 @@
+import _ from 'lodash';
+import moment from 'moment';
+import { Types } from 'mongoose';
+import DayService, { DateRange } from './day-service';
+import { EmotionGroup, EmotionRollup } from './emotion-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Stats service class.
+ * 
+ * This service is used to compute statistics on days of users. Statistics are computed in database with aggregation pipelines.
+ * 
+ * To compute streaks and runs, days are converted to day numbers (days since 1970-01-01), so consecutive days have consecutive numbers.
+ */
+export default class StatsService extends Service {
+
+  private static readonly DAY_DURATION = 86400000;
+
+  /**
+   * Creates a new stats service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Gets statistics of an user.
+   * 
+   * Percentages are percentages of logged days, so the sum of emotions percentages can exceed 100 when days have several emotions.
+   * The intensity of an emotion is its average intensity.
+   * The current streak is the streak ending today or yesterday (in the timezone of the user), as today may not be logged yet.
+   * 
+   * When a roll-up is given, emotions are replaced by their category (see `EmotionService.getRollupGroups()`), and rolled up emotions are flagged
+   * with `category: true`.
+   * 
+   * @param userId User ID
+   * @param range Date range
+   * @param rollup Emotions roll-up
+   * @returns Statistics
+   * @async
+   */
+  public async getStats(userId: string, range: DateRange, rollup?: EmotionRollup): Promise<Stats> {
+    const today = moment.utc(this.container.days.getToday(await this.container.days.getTimezone(userId)), DayService.DATE_FORMAT).valueOf() / StatsService.DAY_DURATION;
+    const groups = rollup != null ? await this.container.emotions.getRollupGroups(userId, rollup) : [];
+    const [stats] = await this.db.days.aggregate<Stats>([
+      ...this.getDaysStages(userId, range),
+      ...this.getRollupStages(groups),
+      {
+        $facet: {
+          total: [{ $count: 'count' }],
+          emotions: [
+            { $unwind: '$emotions' },
+            { $sort: { dateKey: 1 } },
+            {
+              $group: {
+                _id: '$emotions.emotion',
+                count: { $sum: 1 },
+                intensity: { $avg: '$emotions.intensity' },
+                dayNumbers: { $push: '$dayNumber' }
+              }
+            },
+            ...this.getEmotionLookupStages(),
+            { $addFields: { runs: this.getRunsExpression('$dayNumbers') } },
+            { $sort: { count: -1, _id: 1 } },
+            {
+              $project: {
+                _id: 0,
+                emotion: '$_id',
+                name: '$emotion.name',
+                color: '$emotion.color',
+                category: 1,
+                count: 1,
+                intensity: { $round: ['$intensity', 2] },
+                longestRun: this.getLongestRunExpression('$runs')
+              }
+            }
+          ],
+          months: this.getBreakdownStages({ year: { $year: '$realDate' }, month: { $month: '$realDate' } }),
+          weekdays: this.getBreakdownStages({ weekday: { $isoDayOfWeek: '$realDate' } }),
+          streaks: [
+            { $sort: { dateKey: 1 } },
+            { $group: { _id: null, dayNumbers: { $push: '$dayNumber' } } },
+            { $addFields: { runs: this.getRunsExpression('$dayNumbers') } },
+            {
+              $project: {
+                _id: 0,
+                current: { $cond: [{ $gte: ['$runs.last', today - 1] }, '$runs.length', 0] },
+                longest: this.getLongestRunExpression('$runs')
+              }
+            }
+          ]
+        }
+      },
+      { $addFields: { loggedDays: { $ifNull: [{ $arrayElemAt: ['$total.count', 0] }, 0] } } },
+      {
+        $project: {
+          loggedDays: 1,
+          emotions: this.getPercentagesExpression('$emotions', '$loggedDays'),
+          months: 1,
+          weekdays: 1,
+          streaks: { $ifNull: [{ $arrayElemAt: ['$streaks', 0] }, { current: 0, longest: { length: 0, from: null, to: null } }] }
+        }
+      }
+    ]);
+    return stats;
+  }
+
+  /**
+   * Gets correlations between emotions of an user.
+   * 
+   * Matrices are indexed like the returned emotions (rows and columns), so they can be used as heatmaps :
+   * - `cooccurrences[i][j]` is the number of days with both emotions (the diagonal is the number of days of each emotion)
+   * - `lift[i][j]` is the ratio between the observed co-occurrence and the co-occurrence expected if emotions were independent. A lift greater
+   * than 1 means that emotions show up together more often than by chance
+   * - `transitions[i][j]` is the probability to log the emotion `j` the day after the emotion `i`, when the next day is logged
+   * 
+   * Emotions can be rolled up like statistics.
+   * 
+   * @param userId User ID
+   * @param range Date range
+   * @param rollup Emotions roll-up
+   * @returns Correlations
+   * @async
+   */
+  public async getCorrelations(userId: string, range: DateRange, rollup?: EmotionRollup): Promise<Correlations> {
+    const nextDate = { $add: ['$realDate', StatsService.DAY_DURATION] };
+    const groups = rollup != null ? await this.container.emotions.getRollupGroups(userId, rollup) : [];
+    const [results] = await this.db.days.aggregate<CorrelationsResults>([
+      ...this.getDaysStages(userId, range),
+      ...this.getRollupStages(groups),
+      {
+        $facet: {
+          total: [{ $count: 'count' }],
+          emotions: [
+            { $unwind: '$emotions' },
+            { $group: { _id: '$emotions.emotion', count: { $sum: 1 } } },
+            ...this.getEmotionLookupStages(),
+            { $sort: { count: -1, _id: 1 } },
+            { $project: { _id: 0, id: '$_id', name: '$emotion.name', color: '$emotion.color', category: 1, count: 1 } }
+          ],
+          cooccurrences: [
+            { $project: { from: '$emotions.emotion', to: '$emotions.emotion' } },
+            { $unwind: '$from' },
+            { $unwind: '$to' },
+            { $group: { _id: { from: '$from', to: '$to' }, count: { $sum: 1 } } },
+            { $project: { _id: 0, from: '$_id.from', to: '$_id.to', value: '$count' } }
+          ],
+          transitions: [
+            {
+              $lookup: {
+                from: 'days',
+                let: {
+                  owner: '$owner',
+                  nextDateKey: { $add: [{ $multiply: [{ $year: nextDate }, 10000] }, { $multiply: [{ $month: nextDate }, 100] }, { $dayOfMonth: nextDate }] }
+                },
+                pipeline: [
+                  { $match: { $expr: { $and: [{ $eq: ['$owner', '$$owner'] }, { $eq: ['$dateKey', '$$nextDateKey'] }, { $eq: ['$deleted', false] }] } } },
+                  ...this.getRollupStages(groups),
+                  { $project: { emotions: 1 } }
+                ],
+                as: 'next'
+              }
+            },
+            { $unwind: '$next' },
+            { $unwind: '$emotions' },
+            { $group: { _id: '$emotions.emotion', sources: { $sum: 1 }, nextEmotions: { $push: '$next.emotions.emotion' } } },
+            { $unwind: '$nextEmotions' },
+            { $unwind: '$nextEmotions' },
+            { $group: { _id: { from: '$_id', to: '$nextEmotions' }, count: { $sum: 1 }, sources: { $first: '$sources' } } },
+            { $project: { _id: 0, from: '$_id.from', to: '$_id.to', value: { $divide: ['$count', '$sources'] } } }
+          ]
+        }
+      },
+      { $project: { days: { $ifNull: [{ $arrayElemAt: ['$total.count', 0] }, 0] }, emotions: 1, cooccurrences: 1, transitions: 1 } }
+    ]);
+    const { days, emotions } = results;
+    const cooccurrences = this.toMatrix(emotions, results.cooccurrences);
+    const lift = cooccurrences.map((row, i) => row.map((count, j) => _.round(count * days / (emotions[i].count * emotions[j].count), 4)));
+    return {
+      days,
+      emotions,
+      cooccurrences,
+      lift,
+      transitions: this.toMatrix(emotions, results.transitions).map(row => row.map(probability => _.round(probability, 4)))
+    };
+  }
+
+  /**
+   * Gets the mood series of an user.
+   * 
+   * The mood of a day is the average valence of its emotions, and the energy of a day is the average energy of its emotions, both weighted by
+   * emotions intensities. Emotions without valence (or energy) are ignored, so the mood (or energy) of a day is `null` if none of its emotions
+   * have a valence (or energy).
+   * 
+   * Moving averages are computed over the last 7 and 30 calendar days (including the day), with days having a mood.
+   * 
+   * @param userId User ID
+   * @param range Date range
+   * @returns Mood series, sorted by date
+   * @async
+   */
+  public async getMood(userId: string, range: DateRange): Promise<MoodPoint[]> {
+    const days = await this.db.days.aggregate<MoodPoint & { dayNumber: number }>([
+      ...this.getDaysStages(userId, range),
+      { $lookup: { from: 'emotions', localField: 'emotions.emotion', foreignField: '_id', as: 'emotionDocuments' } },
+      {
+        $addFields: {
+          emotions: {
+            $map: {
+              input: '$emotions',
+              as: 'dayEmotion',
+              in: {
+                $let: {
+                  vars: {
+                    emotion: { $arrayElemAt: [{ $filter: { input: '$emotionDocuments', cond: { $eq: ['$$this._id', '$$dayEmotion.emotion'] } } }, 0] }
+                  },
+                  in: {
+                    weight: { $ifNull: ['$$dayEmotion.intensity', this.container.config.services.days.intensity.default] },
+                    valence: '$$emotion.valence',
+                    energy: '$$emotion.energy'
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      { $sort: { dateKey: 1 } },
+      {
+        $project: {
+          _id: 0,
+          date: 1,
+          dayNumber: 1,
+          mood: this.getWeightedAverageExpression('$emotions', 'valence'),
+          energy: this.getWeightedAverageExpression('$emotions', 'energy')
+        }
+      }
+    ]);
+    const windows = [7, 30].map(size => ({ size, start: 0, sum: 0, count: 0 }));
+    return days.map(day => {
+      const averages = windows.map(window => {
+        if (day.mood != null) {
+          window.sum += day.mood;
+          window.count++;
+        }
+        for (; days[window.start].dayNumber <= day.dayNumber - window.size; window.start++) {
+          if (days[window.start].mood != null) {
+            window.sum -= days[window.start].mood;
+            window.count--;
+          }
+        }
+        return window.count > 0 ? _.round(window.sum / window.count, 4) : null;
+      });
+      return {
+        date: day.date,
+        mood: day.mood != null ? _.round(day.mood, 4) : null,
+        energy: day.energy != null ? _.round(day.energy, 4) : null,
+        average7: averages[0],
+        average30: averages[1]
+      };
+    });
+  }
+
+  /**
+   * Gets the aggregation stages selecting days of an user.
+   * 
+   * Days are given the `realDate` (UTC date) and `dayNumber` fields.
+   * 
+   * @param userId User ID
+   * @param range Date range
+   * @returns Aggregation stages
+   */
+  public getDaysStages(userId: string, range: DateRange): Record<string, unknown>[] {
+    const dateKey: { $gte: number, $lte?: number } = { $gte: range.from ?? 0 };
+    if (range.to != null) {
+      dateKey.$lte = range.to;
+    }
+    return [
+      { $match: { owner: new Types.ObjectId(userId), deleted: false, dateKey } },
+      {
+        $addFields: {
+          realDate: {
+            $dateFromParts: {
+              year: { $floor: { $divide: ['$dateKey', 10000] } },
+              month: { $floor: { $divide: [{ $mod: ['$dateKey', 10000] }, 100] } },
+              day: { $mod: ['$dateKey', 100] }
+            }
+          }
+        }
+      },
+      { $addFields: { dayNumber: { $floor: { $divide: [{ $toLong: '$realDate' }, StatsService.DAY_DURATION] } } } }
+    ];
+  }
+
+  /**
+   * Gets the aggregation stages rolling up emotions of days.
+   * 
+   * Emotions are replaced by their group, and duplicated groups of a day are removed (the first day emotion of a group is kept).
+   * 
+   * @param groups Groups of emotions
+   * @returns Aggregation stages (empty if there are no groups)
+   */
+  private getRollupStages(groups: EmotionGroup[]): Record<string, unknown>[] {
+    if (groups.length === 0) {
+      return [];
+    }
+    const group = {
+      $arrayElemAt: [{ $map: { input: { $filter: { input: { $literal: groups }, cond: { $eq: ['$$this.emotion', '$$dayEmotion.emotion'] } } }, in: '$$this.group' } }, 0]
+    };
+    return [{
+      $addFields: {
+        emotions: {
+          $reduce: {
+            input: { $map: { input: '$emotions', as: 'dayEmotion', in: { $mergeObjects: ['$$dayEmotion', { emotion: { $ifNull: [group, '$$dayEmotion.emotion'] } }] } } },
+            initialValue: [],
+            in: { $cond: [{ $in: ['$$this.emotion', '$$value.emotion'] }, '$$value', { $concatArrays: ['$$value', ['$$this']] }] }
+          }
+        }
+      }
+    }];
+  }
+
+  /**
+   * Gets the aggregation stages looking up emotions (or emotion categories when emotions are rolled up) by `_id`.
+   * 
+   * The emotion (or category) is set in the `emotion` field, and the `category` field is `true` for categories.
+   * 
+   * @returns Aggregation stages
+   */
+  private getEmotionLookupStages(): Record<string, unknown>[] {
+    return [
+      { $lookup: { from: 'emotions', localField: '_id', foreignField: '_id', as: 'emotion' } },
+      { $lookup: { from: 'emotionCategories', localField: '_id', foreignField: '_id', as: 'category' } },
+      { $addFields: { emotion: { $arrayElemAt: [{ $concatArrays: ['$emotion', '$category'] }, 0] }, category: { $gt: [{ $size: '$category' }, 0] } } },
+      { $match: { emotion: { $exists: true } } }
+    ];
+  }
+
+  /**
+   * Gets the aggregation stages of a breakdown (by month, by weekday, ...).
+   * 
+   * Each bucket contains its number of logged days and its emotions counts and percentages.
+   * 
+   * @param key Bucket key fields
+   * @returns Aggregation stages
+   */
+  private getBreakdownStages(key: Record<string, unknown>): Record<string, unknown>[] {
+    const keyFields = Object.keys(key);
+    const bucketKey = Object.fromEntries(keyFields.map(field => [field, `$_id.${field}`]));
+    return [
+      { $unwind: { path: '$emotions', includeArrayIndex: 'emotionIndex' } },
+      {
+        $group: {
+          _id: { ...key, emotion: '$emotions.emotion' },
+          count: { $sum: 1 },
+          days: { $sum: { $cond: [{ $eq: ['$emotionIndex', 0] }, 1, 0] } }
+        }
+      },
+      { $sort: { count: -1, '_id.emotion': 1 } },
+      { $group: { _id: bucketKey, days: { $sum: '$days' }, emotions: { $push: { emotion: '$_id.emotion', count: '$count' } } } },
+      { $sort: Object.fromEntries(keyFields.map(field => [`_id.${field}`, 1])) },
+      {
+        $project: {
+          _id: 0,
+          ...bucketKey,
+          days: 1,
+          emotions: this.getPercentagesExpression('$emotions', '$days')
+        }
+      }
+    ];
+  }
+
+  /**
+   * Gets the aggregation expression adding percentages to emotions counts.
+   * 
+   * @param emotions Emotions counts array expression
+   * @param days Days count expression
+   * @returns Aggregation expression
+   */
+  private getPercentagesExpression(emotions: string, days: string): Record<string, unknown> {
+    return {
+      $map: {
+        input: emotions,
+        as: 'emotion',
+        in: { $mergeObjects: ['$$emotion', { percentage: { $round: [{ $multiply: [{ $divide: ['$$emotion.count', days] }, 100] }, 2] } }] }
+      }
+    };
+  }
+
+  /**
+   * Converts emotions pairs to a matrix.
+   * 
+   * Missing pairs are set to 0.
+   * 
+   * @param emotions Emotions (rows and columns of the matrix)
+   * @param pairs Emotions pairs values
+   * @returns Matrix
+   */
+  private toMatrix(emotions: CorrelationsEmotion[], pairs: EmotionsPair[]): number[][] {
+    const indexes = new Map(emotions.map((emotion, index) => [emotion.id.toString(), index]));
+    const matrix = emotions.map(() => emotions.map(() => 0));
+    for (const pair of pairs) {
+      const from = indexes.get(pair.from.toString());
+      const to = indexes.get(pair.to.toString());
+      if (from != null && to != null) {
+        matrix[from][to] = pair.value;
+      }
+    }
+    return matrix;
+  }
+
+  /**
+   * Gets the aggregation expression computing the weighted average of a field.
+   * 
+   * Items without value are ignored, and the average is `null` if no item has a value.
+   * 
+   * @param items Items array expression, items must have the `weight` field
+   * @param field Averaged field
+   * @returns Aggregation expression
+   */
+  private getWeightedAverageExpression(items: string, field: string): Record<string, unknown> {
+    return {
+      $let: {
+        vars: { items: { $filter: { input: items, cond: { $ne: [{ $ifNull: [`$$this.${field}`, null] }, null] } } } },
+        in: {
+          $cond: [
+            { $gt: [{ $size: '$$items' }, 0] },
+            { $divide: [{ $sum: { $map: { input: '$$items', in: { $multiply: [`$$this.${field}`, '$$this.weight'] } } } }, { $sum: '$$items.weight' }] },
+            null
+          ]
+        }
+      }
+    };
+  }
+
+  /**
+   * Gets the aggregation expression computing runs of consecutive days.
+   * 
+   * The result contains the last day number (`last`), the length of the last run (`length`), and the length and the last day number
+   * of the longest run (`longest` and `longestEnd`).
+   * 
+   * @param dayNumbers Sorted day numbers array expression
+   * @returns Aggregation expression
+   */
+  private getRunsExpression(dayNumbers: string): Record<string, unknown> {
+    return {
+      $reduce: {
+        input: dayNumbers,
+        initialValue: { last: null, length: 0, longest: 0, longestEnd: null },
+        in: {
+          $let: {
+            vars: { length: { $cond: [{ $eq: ['$$this', { $add: ['$$value.last', 1] }] }, { $add: ['$$value.length', 1] }, 1] } },
+            in: {
+              last: '$$this',
+              length: '$$length',
+              longest: { $max: ['$$value.longest', '$$length'] },
+              longestEnd: { $cond: [{ $gt: ['$$length', '$$value.longest'] }, '$$this', '$$value.longestEnd'] }
+            }
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Gets the aggregation expression formatting the longest run of runs computed by `getRunsExpression()`.
+   * 
+   * @param runs Runs expression
+   * @returns Aggregation expression
+   */
+  private getLongestRunExpression(runs: string): Record<string, unknown> {
+    return {
+      length: `${runs}.longest`,
+      from: this.getDateStringExpression({ $subtract: [`${runs}.longestEnd`, { $subtract: [`${runs}.longest`, 1] }] }),
+      to: this.getDateStringExpression(`${runs}.longestEnd`)
+    };
+  }
+
+  /**
+   * Gets the aggregation expression converting a day number to a date string (`YYYY-MM-DD`).
+   * 
+   * @param dayNumber Day number expression
+   * @returns Aggregation expression
+   */
+  private getDateStringExpression(dayNumber: unknown): Record<string, unknown> {
+    return { $dateToString: { format: '%Y-%m-%d', date: { $toDate: { $multiply: [dayNumber, StatsService.DAY_DURATION] } } } };
+  }
+}
+
+/**
+ * Emotion count.
+ */
+export interface EmotionCount {
+  emotion: string;
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Run of consecutive days.
+ */
+export interface Run {
+  length: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * Statistics.
+ */
+export interface Stats {
+  loggedDays: number;
+  emotions: (EmotionCount & { name: string, color: string, category: boolean, intensity: number, longestRun: Run })[];
+  months: { year: number, month: number, days: number, emotions: EmotionCount[] }[];
+  weekdays: { weekday: number, days: number, emotions: EmotionCount[] }[];
+  streaks: {
+    current: number;
+    longest: Run;
+  };
+}
+
+/**
+ * Point of the mood series.
+ */
+export interface MoodPoint {
+  date: string;
+  mood: number;
+  energy: number;
+  average7: number;
+  average30: number;
+}
+
+/**
+ * Emotion of correlations.
+ */
+export interface CorrelationsEmotion {
+  id: string;
+  name: string;
+  color: string;
+  category: boolean;
+  count: number;
+}
+
+/**
+ * Correlations between emotions.
+ */
+export interface Correlations {
+  days: number;
+  emotions: CorrelationsEmotion[];
+  cooccurrences: number[][];
+  lift: number[][];
+  transitions: number[][];
+}
+
+/**
+ * Value of an emotions pair, used to build matrices.
+ */
+interface EmotionsPair {
+  from: string;
+  to: string;
+  value: number;
+}
+
+/**
+ * Raw correlations results of the aggregation pipeline.
+ */
+interface CorrelationsResults {
+  days: number;
+  emotions: CorrelationsEmotion[];
+  cooccurrences: EmotionsPair[];
+  transitions: EmotionsPair[];
+}
@@ -0,0 +1,342 @@
+import _ from 'lodash';
+import { Error as MongooseError } from 'mongoose';
+import { Day } from '../models/day-model';
+import { EmotionDocument } from '../models/emotion-model';
+import { APIError } from './error-service';
+import Service from './service';
+import ServiceContainer from './service-container';
+
+/**
+ * Sync service class.
+ * 
+ * This service is used to synchronize days and emotions with offline-first clients. Changes are tracked with the `updatedAt` timestamps,
+ * and deletions are returned as tombstones thanks to the `deleted` flags.
+ */
+export default class SyncService extends Service {
+
+  /**
+   * Creates a new sync service.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  /**
+   * Creates a new cursor.
+   * 
+   * The cursor date is slightly in the past, to not miss changes saved while reading. Clients may receive the same change twice.
+   * 
+   * @returns Cursor
+   */
+  public createCursor(): string {
+    return this.container.crypto.encrypt(new Date(Date.now() - this.container.config.services.sync.overlap).toISOString(), 'base64');
+  }
+
+  /**
+   * Decodes a cursor.
+   * 
+   * @param cursor Cursor
+   * @returns Cursor date, or `null` if the cursor is invalid
+   */
+  public decodeCursor(cursor: string): Date {
+    const date = new Date(Buffer.from(cursor, 'base64').toString());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Formats a day for clients.
+   * 
+   * Emotions of the day are formatted with emotion IDs.
+   * 
+   * @param day Day to format
+   * @returns Formatted day
+   */
+  public formatDay(day: Day): SyncDay {
+    return {
+      date: day.date,
+      description: day.description,
+      emotions: day.emotions.map(({ emotion, intensity, order }) => ({ emotion: emotion._id.toString(), intensity, order })),
+      createdAt: day.createdAt,
+      updatedAt: day.updatedAt
+    };
+  }
+
+  /**
+   * Gets changes since a date.
+   * 
+   * If no date is given, all days and emotions are returned without tombstones.
+   * 
+   * @param userId User ID
+   * @param since Date of the last sync
+   * @returns Changes
+   * @async
+   */
+  public async getChanges(userId: string, since?: Date): Promise<SyncChanges> {
+    const emotionsQuery = this.db.emotions.find().where('owner').equals(userId).select('+deleted -owner');
+    if (since != null) {
+      emotionsQuery.where('updatedAt').gte(since.getTime());
+    } else {
+      emotionsQuery.where('deleted').equals(false);
+    }
+    const daysQuery = this.db.days.find().where('owner').equals(userId).select('+deleted');
+    if (since != null) {
+      daysQuery.where('updatedAt').gte(since.getTime());
+    } else {
+      daysQuery.where('deleted').equals(false);
+    }
+    const emotions = await emotionsQuery;
+    const days = await daysQuery;
+    return {
+      emotions: {
+        upserted: emotions.filter(emotion => !emotion.deleted).map(emotion => {
+          emotion.deleted = undefined;
+          return emotion;
+        }),
+        deleted: emotions.filter(emotion => emotion.deleted).map(emotion => ({ id: emotion.id, deletedAt: emotion.updatedAt }))
+      },
+      days: {
+        upserted: days.filter(day => !day.deleted).map(day => this.formatDay(day)),
+        deleted: days.filter(day => day.deleted).map(day => ({ date: day.date, deletedAt: day.updatedAt }))
+      }
+    };
+  }
+
+  /**
+   * Applies client changes.
+   * 
+   * A change is in conflict when the server version was modified since the last client sync, and conflicting changes are not applied.
+   * Every change is applied separately : an invalid or conflicting change does not prevent others to be applied. Changes which are not
+   * objects, or with a non-string date or ID, are invalid.
+   * 
+   * @param userId User ID
+   * @param since Date of the last client sync
+   * @param changes Client changes
+   * @returns Results of changes
+   * @async
+   */
+  public async applyChanges(userId: string, since: Date, changes: SyncClientChanges): Promise<SyncResults> {
+    const results: SyncResults = { emotions: [], days: [] };
+    for (const change of changes.emotions || []) {
+      results.emotions.push(await this.applyEmotionChange(userId, since, change));
+    }
+    const timezone = changes.days?.length > 0 ? await this.container.days.getTimezone(userId) : null;
+    for (const change of changes.days || []) {
+      results.days.push(await this.applyDayChange(userId, since, change, timezone));
+    }
+    return results;
+  }
+
+  /**
+   * Applies a client day change.
+   * 
+   * @param userId User ID
+   * @param since Date of the last client sync
+   * @param change Client day change
+   * @param timezone Timezone of the user
+   * @returns Result of the change
+   * @async
+   */
+  private async applyDayChange(userId: string, since: Date, change: SyncClientDay, timezone: string): Promise<SyncResult> {
+    if (!_.isPlainObject(change) || typeof change.date !== 'string') {
+      return { status: 'invalid', errors: [{ error: 'validation_failed', error_description: 'Invalid day change' }] };
+    }
+    const { date, description, emotions, deleted } = change;
+    const dateKey = this.container.days.getDateKey(date);
+    const existingDay = Number.isNaN(dateKey) ? null : await this.db.days.findOne().where('owner').equals(userId).where('dateKey').equals(dateKey).select('+deleted');
+    if (existingDay != null && existingDay.updatedAt >= since) {
+      return { date, status: 'conflict', reason: 'modified', server: existingDay.deleted ? null : this.formatDay(existingDay) };
+    }
+    if (deleted && (existingDay == null || existingDay.deleted)) {
+      return { date, status: 'deleted' };
+    }
+    try {
+      let day: Day;
+      if (deleted) {
+        existingDay.deleted = true;
+        day = await existingDay.save();
+      } else if (existingDay != null && !existingDay.deleted) {
+        if (description !== undefined) {
+          existingDay.description = description;
+        }
+        if (emotions != null) {
+          existingDay.emotions = emotions;
+        }
+        day = await existingDay.save();
+      } else {
+        day = await this.container.days.createDay(userId, { date, description, emotions }, { timezone });
+      }
+      const status = deleted ? 'deleted' : (existingDay == null || existingDay.deleted ? 'created' : 'updated');
+      this.container.websocket.emitSync(userId, `day:${status}`, day);
+      return { date, status };
+    } catch (err) {
+      if (err instanceof MongooseError.ValidationError) {
+        return { date, status: 'invalid', errors: this.container.errors.translateMongooseValidationError(err) };
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Applies a client emotion change.
+   * 
+   * @param userId User ID
+   * @param since Date of the last client sync
+   * @param change Client emotion change
+   * @returns Result of the change
+   * @async
+   */
+  private async applyEmotionChange(userId: string, since: Date, change: SyncClientEmotion): Promise<SyncResult> {
+    if (!_.isPlainObject(change) || (change.id != null && typeof change.id !== 'string')) {
+      return { clientId: change?.clientId, status: 'invalid', errors: [{ error: 'validation_failed', error_description: 'Invalid emotion change' }] };
+    }
+    const { id, clientId, name, color, valence, energy, position, icon, archived, deleted } = change;
+    try {
+      if (id == null) {
+        const emotion = await this.db.emotions.create({ owner: userId, name, color, valence, energy, position, icon, archived });
+        this.container.websocket.emitSync(userId, 'emotion:created', emotion);
+        return { id: emotion.id, clientId, status: 'created' };
+      }
+      const emotion = await this.db.emotions.findById(id).where('owner').equals(userId).select('+deleted');
+      if (emotion == null) {
+        return { id, clientId, status: 'conflict', reason: 'not_found' };
+      }
+      if (emotion.updatedAt >= since) {
+        return { id, clientId, status: 'conflict', reason: 'modified', server: emotion.deleted ? null : emotion };
+      }
+      if (emotion.deleted) {
+        return { id, clientId, status: 'conflict', reason: 'deleted' };
+      }
+      if (deleted) {
+        emotion.deleted = true;
+      } else {
+        if (name != null) {
+          emotion.name = name;
+        }
+        if (color != null) {
+          emotion.color = color;
+        }
+        if (valence !== undefined) {
+          emotion.valence = valence;
+        }
+        if (energy !== undefined) {
+          emotion.energy = energy;
+        }
+        if (position != null) {
+          emotion.position = position;
+        }
+        if (icon !== undefined) {
+          emotion.icon = icon;
+        }
+        if (archived != null) {
+          emotion.archived = archived;
+        }
+      }
+      await emotion.save();
+      this.container.websocket.emitSync(userId, deleted ? 'emotion:deleted' : 'emotion:updated', emotion);
+      return { id, clientId, status: deleted ? 'deleted' : 'updated' };
+    } catch (err) {
+      if (err instanceof MongooseError.ValidationError) {
+        return { id, clientId, status: 'invalid', errors: this.container.errors.translateMongooseValidationError(err) };
+      }
+      if (err instanceof MongooseError.CastError) {
+        return { id, clientId, status: 'conflict', reason: 'not_found' };
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Day formatted for clients.
+ */
+export interface SyncDay {
+  date: string;
+  description: string;
+  emotions: SyncDayEmotion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Day emotion formatted for clients.
+ */
+export interface SyncDayEmotion {
+  emotion: string;
+  intensity: number;
+  order: number;
+}
+
+/**
+ * Server changes.
+ */
+export interface SyncChanges {
+  emotions: {
+    upserted: EmotionDocument[];
+    deleted: { id: string, deletedAt: Date }[];
+  };
+  days: {
+    upserted: SyncDay[];
+    deleted: { date: string, deletedAt: Date }[];
+  };
+}
+
+/**
+ * Client emotion change.
+ * 
+ * Emotions without ID are created, `clientId` can be used by the client to match the created emotion.
+ */
+export interface SyncClientEmotion {
+  id?: string;
+  clientId?: string;
+  name?: string;
+  color?: string;
+  valence?: number;
+  energy?: number;
+  position?: number;
+  icon?: string;
+  archived?: boolean;
+  deleted?: boolean;
+}
+
+/**
+ * Client day change.
+ * 
+ * Emotions can be given as emotion IDs, or as day emotions to set intensities and orders.
+ */
+export interface SyncClientDay {
+  date: string;
+  description?: string;
+  emotions?: (string | Pick<SyncDayEmotion, 'emotion'> & Partial<SyncDayEmotion>)[];
+  deleted?: boolean;
+}
+
+/**
+ * Client changes.
+ */
+export interface SyncClientChanges {
+  emotions?: SyncClientEmotion[];
+  days?: SyncClientDay[];
+}
+
+/**
+ * Result of a client change.
+ */
+export interface SyncResult {
+  id?: string;
+  clientId?: string;
+  date?: string;
+  status: 'created' | 'updated' | 'deleted' | 'conflict' | 'invalid';
+  reason?: 'not_found' | 'modified' | 'deleted';
+  server?: unknown;
+  errors?: APIError[];
+}
+
+/**
+ * Results of client changes.
+ */
+export interface SyncResults {
+  emotions: SyncResult[];
+  days: SyncResult[];
+}
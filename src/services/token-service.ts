@@ -41,13 +41,15 @@ export default class TokenService extends Service {
   /**
    * Decodes a token.
    * 
+   * The key can be a secret, a public key, or a function which provides the key from the token header.
+   * 
    * @param data Token data
    * @param key Token key
    * @param options Token options
    * @returns Token data
    * @async
    */
-  public async decode<T extends TokenData>(token: string, key: string, options?: jwt.VerifyOptions): Promise<T> {
+  public async decode<T extends TokenData>(token: string, key: jwt.Secret | jwt.GetPublicKeyOrSecret, options?: jwt.VerifyOptions): Promise<T> {
     return await new Promise<T>((resolve, reject) => {
       jwt.verify(token, key, options, (err, data) => {
         if (err) {
@@ -69,11 +71,13 @@ export interface TokenData {
 /**
  * Access token data.
  */
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface AccessTokenData extends TokenData {}
+export interface AccessTokenData extends TokenData {
+  sessionId: string;
+}
 
 /**
  * Refresh token data.
  */
-// eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface RefreshTokenData extends TokenData {}
+export interface RefreshTokenData extends TokenData {
+  tokenId: string;
+}
@@ -1,5 +1,9 @@
 import { Server, Socket } from 'socket.io';
+import { Day } from '../models/day-model';
+import { EmotionDocument } from '../models/emotion-model';
+import { UserDocument } from '../models/user-model';
 import DisconnectWebSocket from '../websockets/disconnect-websocket';
+import SyncWebsocket from '../websockets/sync-websocket';
 import Websocket from '../websockets/websocket';
 import Service from './service';
 import ServiceContainer from './service-container';
@@ -11,6 +15,18 @@ import ServiceContainer from './service-container';
  */
 export default class WebsocketService extends Service {
 
+  /**
+   * Gets the room name of an user.
+   * 
+   * All sockets of an user join this room.
+   * 
+   * @param userId User ID
+   * @returns Room name
+   */
+  public static getUserRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
   private srv: Server;
   private readonly websockets: Websocket[];
 
@@ -23,7 +39,8 @@ export default class WebsocketService extends Service {
     super(container);
     this.srv = null;
     this.websockets = [
-      new DisconnectWebSocket(container)
+      new DisconnectWebSocket(container),
+      new SyncWebsocket(container)
     ];
   }
 
@@ -38,9 +55,10 @@ export default class WebsocketService extends Service {
           pingInterval: 60000,
           pingTimeout: 600000,
           cors: {
-            origin: '*'
+            origin: this.container.config.services.websocket.origins
           }
       });
+      this.srv.use((socket, next) => this.authenticate(socket, next));
       this.createEvents();
     }
   }
@@ -55,12 +73,63 @@ export default class WebsocketService extends Service {
     }
   }
 
+  /**
+   * Emits a day or emotion change to the subscribed sockets of an user.
+   * 
+   * Days are formatted like in the sync, with emotions as IDs.
+   * 
+   * @param userId User ID
+   * @param event Sync event
+   * @param payload Changed day or emotion
+   */
+  public emitSync(userId: string, event: SyncEvent, payload: Day | EmotionDocument): void {
+    if (this.srv) {
+      const data = event.startsWith('day:') ? this.container.sync.formatDay(payload as Day) : payload;
+      this.srv.to(SyncWebsocket.getRoom(userId)).emit(event, data);
+    }
+  }
+
+  /**
+   * Authenticates a socket.
+   * 
+   * An access token must be provided in the handshake `auth.token` field or in the `Authorization` header. If the token is valid, the user is stored
+   * into `socket.data.user`, otherwise the connection is rejected.
+   * 
+   * This method is a socket.io middleware.
+   * 
+   * @param socket Client socket
+   * @param next Next middleware
+   * @async
+   */
+  private async authenticate(socket: Socket, next: (err?: Error) => void): Promise<void> {
+    const token = socket.handshake.auth?.token || socket.handshake.headers.authorization?.split(' ')[1];
+    if (token == null) {
+      return next(new Error('Not authenticated'));
+    }
+    try {
+      const { userId, session } = await this.container.auth.verifyAccessToken(token);
+      const user = await this.db.users.findById(userId).where('deleted').equals(false);
+      if (user == null) {
+        throw new Error('User not found');
+      }
+      socket.data.user = user;
+      socket.data.session = session;
+      return next();
+    } catch (err) {
+      this.logger.error('Could not authenticate websocket :', (err as Error).message);
+      return next(new Error('Not authenticated'));
+    }
+  }
+
   /**
    * Creates events.
+   * 
+   * Connected sockets join the room of their user.
    */
   private createEvents(): void {
     this.srv.on('connect', (socket: Socket) => {
       this.logger.info(`Websocket connected : ${socket.handshake.address}`);
+      socket.join(WebsocketService.getUserRoom((socket.data.user as UserDocument).id));
       this.websockets.forEach(websocket => {
         websocket.createEvents(this.srv, socket);
         this.logger.info('Registered websocket', websocket.constructor.name);
@@ -68,3 +137,14 @@ export default class WebsocketService extends Service {
     });
   }
 }
+
+/**
+ * Sync event.
+ */
+export type SyncEvent
+  = 'day:created'
+  | 'day:updated'
+  | 'day:deleted'
+  | 'emotion:created'
+  | 'emotion:updated'
+  | 'emotion:deleted';
@@ -0,0 +1,51 @@
+import { Server, Socket } from 'socket.io';
+import { UserDocument } from '../models/user-model';
+import ServiceContainer from '../services/service-container';
+import Websocket from './websocket';
+
+/**
+ * Sync websocket class.
+ * 
+ * The sync websocket adds the `sync:subscribe` and `sync:unsubscribe` events. Subscribed sockets receive days and emotions changes of their user :
+ * - `day:created`, `day:updated` and `day:deleted` with the day as payload
+ * - `emotion:created`, `emotion:updated` and `emotion:deleted` with the emotion as payload
+ */
+export default class SyncWebsocket extends Websocket {
+
+  /**
+   * Gets the sync room name of an user.
+   * 
+   * @param userId User ID
+   * @returns Room name
+   */
+  public static getRoom(userId: string): string {
+    return `sync:${userId}`;
+  }
+
+  /**
+   * Creates a new sync websocket.
+   * 
+   * @param container Services container
+   */
+  public constructor(container: ServiceContainer) {
+    super(container);
+  }
+
+  public createEvents(srv: Server, socket: Socket): void {
+    const room = SyncWebsocket.getRoom((socket.data.user as UserDocument).id);
+    socket.on('sync:subscribe', (ack: unknown) => {
+      socket.join(room);
+      this.logger.info(`Websocket subscribed to sync : ${socket.handshake.address}`);
+      if (typeof ack === 'function') {
+        ack({ subscribed: true });
+      }
+    });
+    socket.on('sync:unsubscribe', (ack: unknown) => {
+      socket.leave(room);
+      this.logger.info(`Websocket unsubscribed from sync : ${socket.handshake.address}`);
+      if (typeof ack === 'function') {
+        ack({ subscribed: false });
+      }
+    });
+  }
+}